@@ -0,0 +1,101 @@
+import { config } from '../config';
+import { isChannelAdmin, isAuthorizedApprover, describeApprovers } from '../approverAuth';
+
+// Lookups are cached per user and channel, so each test uses its own IDs
+
+/**
+ * Fake Slack client with a workspace admin, a channel creator and a plain member
+ */
+function createClient() {
+    return {
+        users: {
+            info: jest.fn(async ({ user }: { user: string }) => {
+                if (user.startsWith('UBROKEN')) throw new Error('user_not_found');
+                return { user: { id: user, is_admin: user.startsWith('UADMIN'), is_owner: user.startsWith('UOWNER') } };
+            })
+        },
+        conversations: {
+            info: jest.fn(async ({ channel }: { channel: string }) => {
+                if (channel.startsWith('CBROKEN')) throw new Error('channel_not_found');
+                return { channel: { id: channel, creator: `UCREATOR-${channel}` } };
+            })
+        }
+    };
+}
+
+const originalApprovers = config.approvers;
+const originalApproverUserIds = config.approverUserIds;
+
+beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    config.approvers = originalApprovers;
+    config.approverUserIds = originalApproverUserIds;
+});
+
+describe('isChannelAdmin', () => {
+    it('accepts the channel creator and workspace admins or owners', async () => {
+        const client = createClient();
+        expect(await isChannelAdmin(client, 'UCREATOR-C1', 'C1')).toBe(true);
+        expect(await isChannelAdmin(client, 'UADMIN1', 'C1')).toBe(true);
+        expect(await isChannelAdmin(client, 'UOWNER1', 'C1')).toBe(true);
+        expect(await isChannelAdmin(client, 'UMEMBER1', 'C1')).toBe(false);
+        expect(client.users.info).not.toHaveBeenCalledWith({ user: 'UCREATOR-C1' });
+    });
+
+    it('caches lookups', async () => {
+        const client = createClient();
+        await isChannelAdmin(client, 'UMEMBER2', 'C2');
+        await isChannelAdmin(client, 'UMEMBER2', 'C2');
+        expect(client.conversations.info).toHaveBeenCalledTimes(1);
+        expect(client.users.info).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses when the lookups fail', async () => {
+        const client = createClient();
+        expect(await isChannelAdmin(client, 'UBROKEN1', 'CBROKEN1')).toBe(false);
+    });
+});
+
+describe('isAuthorizedApprover', () => {
+    it('applies each configured rule', async () => {
+        const client = createClient();
+        config.approvers = ['requester', 'group', 'admins'];
+        config.approverUserIds = ['UGROUP1'];
+
+        expect(await isAuthorizedApprover(client, 'UREQ1', 'UREQ1', 'C3')).toBe(true);
+        expect(await isAuthorizedApprover(client, 'UGROUP1', 'UREQ1', 'C3')).toBe(true);
+        expect(await isAuthorizedApprover(client, 'UADMIN3', 'UREQ1', 'C3')).toBe(true);
+        expect(await isAuthorizedApprover(client, 'UMEMBER3', 'UREQ1', 'C3')).toBe(false);
+    });
+
+    it('only looks up admins when the admins rule is on', async () => {
+        const client = createClient();
+        config.approvers = ['requester'];
+
+        expect(await isAuthorizedApprover(client, 'UADMIN4', 'UREQ4', 'C4')).toBe(false);
+        expect(client.users.info).not.toHaveBeenCalled();
+        expect(client.conversations.info).not.toHaveBeenCalled();
+    });
+
+    it('lets anyone approve when configured', async () => {
+        config.approvers = ['anyone'];
+        expect(await isAuthorizedApprover(createClient(), 'UMEMBER5', 'UREQ5', 'C5')).toBe(true);
+    });
+});
+
+describe('describeApprovers', () => {
+    it('lists who may approve', () => {
+        config.approvers = ['requester', 'group', 'admins'];
+        config.approverUserIds = ['U1', 'U2'];
+        expect(describeApprovers('UREQ')).toBe('the requester (<@UREQ>) or <@U1>, <@U2> or channel admins');
+
+        config.approverUserIds = [];
+        expect(describeApprovers('UREQ')).toBe('the requester (<@UREQ>) or channel admins');
+
+        config.approvers = [];
+        expect(describeApprovers('UREQ')).toBe('nobody');
+    });
+});
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config';
+import { initSessionStore, createMemorySessionStore, updateStoredState } from '../sessionStore';
+import {
+    getRunCost,
+    getChannelBudget,
+    getChannelSpend,
+    getUserSpend,
+    getExceededBudget,
+    hasBudgetOverride,
+    recordCost
+} from '../costTracker';
+
+// The ledger is loaded once per module, so each test uses its own channel
+
+let dir: string;
+const originalConfig = { ...config };
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-tracker-'));
+    config.costLedgerPath = path.join(dir, 'costs.json');
+});
+
+afterAll(() => {
+    Object.assign(config, originalConfig);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    initSessionStore(createMemorySessionStore());
+    config.channelDailyBudgetUsd = 0;
+    config.channelMonthlyBudgetUsd = 0;
+    config.budgetWarningPercent = 80;
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('getRunCost', () => {
+    const result = {
+        total_cost_usd: 0.5,
+        modelUsage: {
+            'claude-sonnet-4-5-20250929': { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadInputTokens: 1_000_000, costUSD: 0.45 },
+            'claude-haiku-4-5': { inputTokens: 10, outputTokens: 10, costUSD: 0.05 }
+        }
+    };
+
+    afterEach(() => {
+        config.costSource = originalConfig.costSource;
+        config.modelPrices = originalConfig.modelPrices;
+    });
+
+    it('uses the SDK cost by default', () => {
+        config.costSource = 'sdk';
+        expect(getRunCost(result)).toBe(0.5);
+        expect(getRunCost(null)).toBe(0);
+    });
+
+    it('prices tokens by the longest matching model prefix', () => {
+        config.costSource = 'prices';
+        config.modelPrices = {
+            'claude-sonnet': { input: 100, output: 100 },
+            'claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3 }
+        };
+        // 3 + 1.5 + 0.3 for sonnet; haiku isn't in the table, so its SDK cost is used
+        expect(getRunCost(result)).toBeCloseTo(4.85);
+    });
+
+    it('charges cache tokens at the input price when the table has no cache prices', () => {
+        config.costSource = 'prices';
+        config.modelPrices = { 'claude-sonnet-4-5': { input: 3, output: 15 } };
+        expect(getRunCost({ modelUsage: { 'claude-sonnet-4-5': { cacheCreationInputTokens: 1_000_000 } } })).toBeCloseTo(3);
+    });
+});
+
+describe('MODEL_PRICES', () => {
+    const originalEnv = process.env.MODEL_PRICES;
+
+    afterEach(() => {
+        if (originalEnv === undefined) delete process.env.MODEL_PRICES;
+        else process.env.MODEL_PRICES = originalEnv;
+    });
+
+    /**
+     * Load a fresh copy of the config with MODEL_PRICES set
+     */
+    function loadPrices(raw: string): Record<string, unknown> {
+        process.env.MODEL_PRICES = raw;
+        let prices: Record<string, unknown> = {};
+        jest.isolateModules(() => {
+            prices = require('../config').config.modelPrices;
+        });
+        return prices;
+    }
+
+    it('ignores a malformed table instead of failing at startup', () => {
+        expect(loadPrices('{ not json')).toEqual({});
+        expect(loadPrices('[1, 2]')).toEqual({});
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Ignoring MODEL_PRICES'));
+    });
+
+    it('drops entries without numeric prices', () => {
+        expect(loadPrices('{"claude-a":{"input":1,"output":2},"claude-b":{"input":"1"}}')).toEqual({ 'claude-a': { input: 1, output: 2 } });
+    });
+});
+
+describe('budgets', () => {
+    it('uses channel budgets over the configured defaults', () => {
+        config.channelDailyBudgetUsd = 5;
+        config.channelMonthlyBudgetUsd = 50;
+        expect(getChannelBudget('CB1')).toEqual({ dailyUsd: 5, monthlyUsd: 50 });
+
+        updateStoredState('CB1', { budget: { dailyUsd: 0, monthlyUsd: 100 } });
+        expect(getChannelBudget('CB1')).toEqual({ dailyUsd: 0, monthlyUsd: 100 });
+    });
+
+    it('reports the warning and the cap once, when they are crossed', () => {
+        updateStoredState('CB2', { budget: { dailyUsd: 10, monthlyUsd: 0 } });
+
+        expect(recordCost('CB2', 'U1', 7)).toEqual([]);
+        expect(recordCost('CB2', 'U1', 1.5)).toEqual([{ period: 'daily', spentUsd: 8.5, budgetUsd: 10, exceeded: false }]);
+        expect(recordCost('CB2', 'U1', 1)).toEqual([]);
+        expect(getExceededBudget('CB2')).toBeNull();
+
+        expect(recordCost('CB2', 'U2', 1)).toEqual([{ period: 'daily', spentUsd: 10.5, budgetUsd: 10, exceeded: true }]);
+        expect(recordCost('CB2', 'U2', 1)).toEqual([]);
+        expect(getExceededBudget('CB2')).toMatchObject({ period: 'daily', exceeded: true });
+        expect(getUserSpend('U2').today).toBeCloseTo(2);
+    });
+
+    it('reports a run that jumps past both thresholds as exceeded', () => {
+        updateStoredState('CB3', { budget: { dailyUsd: 0, monthlyUsd: 10 } });
+        expect(recordCost('CB3', 'U1', 12)).toEqual([{ period: 'monthly', spentUsd: 12, budgetUsd: 10, exceeded: true }]);
+        expect(recordCost('CB3', 'U1', 0)).toEqual([]);
+    });
+
+    it('honours an override only until it expires', () => {
+        updateStoredState('CB4', { budgetOverrideUntil: Date.now() + 60_000 });
+        expect(hasBudgetOverride('CB4')).toBe(true);
+
+        updateStoredState('CB4', { budgetOverrideUntil: Date.now() - 1 });
+        expect(hasBudgetOverride('CB4')).toBe(false);
+        expect(hasBudgetOverride('CB5')).toBe(false);
+    });
+});
+
+describe('periods', () => {
+    it('starts a new day at local midnight', () => {
+        jest.useFakeTimers({ now: new Date(2026, 2, 10, 23, 30) });
+        updateStoredState('CP1', { budget: { dailyUsd: 5, monthlyUsd: 0 } });
+        recordCost('CP1', 'U1', 6);
+        expect(getExceededBudget('CP1')).toMatchObject({ period: 'daily' });
+
+        jest.setSystemTime(new Date(2026, 2, 11, 0, 30));
+        expect(getChannelSpend('CP1')).toEqual({ today: 0, month: 6 });
+        expect(getExceededBudget('CP1')).toBeNull();
+    });
+
+    it('starts a new month on the first', () => {
+        jest.useFakeTimers({ now: new Date(2026, 0, 31, 12, 0) });
+        updateStoredState('CP2', { budget: { dailyUsd: 0, monthlyUsd: 20 } });
+        recordCost('CP2', 'U1', 15);
+        expect(recordCost('CP2', 'U1', 6)).toMatchObject([{ period: 'monthly', exceeded: true }]);
+
+        jest.setSystemTime(new Date(2026, 1, 1, 9, 0));
+        expect(getChannelSpend('CP2')).toEqual({ today: 0, month: 0 });
+        expect(getExceededBudget('CP2')).toBeNull();
+        expect(recordCost('CP2', 'U1', 17)).toMatchObject([{ period: 'monthly', spentUsd: 17, exceeded: false }]);
+    });
+
+    it('keeps spend in the ledger file', () => {
+        recordCost('CP3', 'U1', 2.5);
+        const ledger = JSON.parse(fs.readFileSync(config.costLedgerPath, 'utf8'));
+        expect(Object.values<any>(ledger).some(day => day.channels.CP3 === 2.5)).toBe(true);
+        expect(fs.existsSync(`${config.costLedgerPath}.tmp`)).toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { unifiedDiff, buildDiffPreview } from '../diffPreview';
+
+describe('unifiedDiff', () => {
+    it('shows a single change with context', () => {
+        const preview = unifiedDiff('a\nb\nc\nd\ne\n', 'a\nb\nX\nd\ne\n', 'f.txt');
+        expect(preview.diff).toBe([
+            '--- a/f.txt',
+            '+++ b/f.txt',
+            '@@ -1,5 +1,5 @@',
+            ' a',
+            ' b',
+            '-c',
+            '+X',
+            ' d',
+            ' e'
+        ].join('\n'));
+        expect(preview).toMatchObject({ added: 1, removed: 1, isNewFile: false });
+    });
+
+    it('splits distant changes into separate hunks', () => {
+        const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+        const newLines = [...oldLines];
+        newLines[1] = 'changed 2';
+        newLines[17] = 'changed 18';
+        const { diff } = unifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'f.txt');
+
+        expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+        expect(diff).not.toContain('line 10');
+    });
+
+    it('numbers hunks after lines are inserted', () => {
+        const oldLines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+        const newLines = ['new 0', ...oldLines.slice(0, 10), 'new 10', ...oldLines.slice(10)];
+        const { diff, added, removed } = unifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'f.txt');
+
+        expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,3 +1,4 @@', '@@ -8,5 +9,6 @@']);
+        expect([added, removed]).toEqual([2, 0]);
+    });
+
+    it('diffs new files against /dev/null', () => {
+        const preview = unifiedDiff('', 'one\ntwo\n', 'new.txt', true);
+        expect(preview.diff).toBe('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+one\n+two');
+        expect(preview.added).toBe(2);
+    });
+
+    it('says when nothing changed', () => {
+        expect(unifiedDiff('same\n', 'same', 'f.txt').diff).toBe('--- a/f.txt\n+++ b/f.txt\n(no changes)');
+    });
+});
+
+describe('buildDiffPreview', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-preview-'));
+        fs.writeFileSync(path.join(dir, 'app.ts'), 'const a = 1;\nconst b = 2;\nconst a2 = 1;\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('applies Edit to the file on disk', () => {
+        const preview = buildDiffPreview('Edit', { file_path: 'app.ts', old_string: 'b = 2', new_string: 'b = 3' }, dir)!;
+        expect(preview.filePath).toBe('app.ts');
+        expect(preview.diff).toContain('-const b = 2;\n+const b = 3;');
+    });
+
+    it('honours replace_all and applies MultiEdit in order', () => {
+        const replaceAll = buildDiffPreview('Edit', { file_path: 'app.ts', old_string: '= 1', new_string: '= 9', replace_all: true }, dir)!;
+        expect([replaceAll.added, replaceAll.removed]).toEqual([2, 2]);
+
+        const multi = buildDiffPreview('MultiEdit', {
+            file_path: path.join(dir, 'app.ts'),
+            edits: [{ old_string: 'const b', new_string: 'let b' }, { old_string: 'let b = 2', new_string: 'let b = 4' }]
+        }, dir)!;
+        expect(multi.diff).toContain('+let b = 4;');
+    });
+
+    it('falls back to the replacement strings when the edit does not apply', () => {
+        const preview = buildDiffPreview('Edit', { file_path: 'app.ts', old_string: 'missing', new_string: 'found' }, dir)!;
+        expect(preview.diff).toContain('-missing\n+found');
+    });
+
+    it('marks Write to a missing file as new and keeps outside paths absolute', () => {
+        const created = buildDiffPreview('Write', { file_path: 'src/new.ts', content: 'x\n' }, dir)!;
+        expect(created).toMatchObject({ filePath: path.join('src', 'new.ts'), isNewFile: true, added: 1 });
+
+        const outside = buildDiffPreview('Write', { file_path: '/tmp/elsewhere.txt', content: 'x' }, dir)!;
+        expect(outside.filePath).toBe('/tmp/elsewhere.txt');
+    });
+
+    it('diffs notebook cells', () => {
+        fs.writeFileSync(path.join(dir, 'nb.ipynb'), JSON.stringify({ cells: [{ id: 'c1', source: ['print(1)\n', 'print(2)'] }] }));
+        const replaced = buildDiffPreview('NotebookEdit', { notebook_path: 'nb.ipynb', cell_id: 'c1', new_source: 'print(1)\nprint(3)' }, dir)!;
+        expect(replaced.filePath).toBe('nb.ipynb#c1');
+        expect(replaced.diff).toContain('-print(2)\n+print(3)');
+
+        const deleted = buildDiffPreview('NotebookEdit', { notebook_path: 'nb.ipynb', cell_id: 'c1', edit_mode: 'delete' }, dir)!;
+        expect(deleted.removed).toBe(2);
+    });
+
+    it('ignores tools that do not change files', () => {
+        expect(buildDiffPreview('Read', { file_path: 'app.ts' }, dir)).toBeNull();
+        expect(buildDiffPreview('Bash', { command: 'ls' }, dir)).toBeNull();
+        expect(buildDiffPreview('Write', { file_path: 'app.ts' }, dir)).toBeNull();
+    });
+});
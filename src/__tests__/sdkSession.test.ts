@@ -0,0 +1,257 @@
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { config } from '../config';
+import { initSessionStore, createMemorySessionStore, updateStoredState, getStoredState } from '../sessionStore';
+import { sendMessage, cancelQueuedMessage, interruptSession, clearAllSessions, clearChannelSessions, SessionCallbacks } from '../sdkSession';
+
+jest.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: jest.fn() }));
+
+const mockedQuery = query as jest.Mock;
+
+interface FakeRun {
+    prompt: string;
+    options: any;
+    finish: () => void;
+    interrupt: jest.Mock;
+}
+
+const runs: FakeRun[] = [];
+
+/**
+ * Let pending promises settle
+ */
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Callbacks that record queue events
+ */
+function createCallbacks(events: string[], name: string, overrides: Partial<SessionCallbacks> = {}): SessionCallbacks {
+    return {
+        onQueued: (_queueId, position) => events.push(`${name} queued #${position}`),
+        onDequeued: () => events.push(`${name} dequeued`),
+        onCancelled: () => events.push(`${name} cancelled`),
+        onMessage: async () => undefined,
+        onToolApproval: async () => true,
+        onComplete: () => events.push(`${name} complete`),
+        onError: () => events.push(`${name} error`),
+        ...overrides
+    };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    initSessionStore(createMemorySessionStore());
+});
+
+beforeEach(() => {
+    runs.length = 0;
+    mockedQuery.mockImplementation(({ prompt, options }) => {
+        let finish!: () => void;
+        const done = new Promise<void>(resolve => { finish = resolve; });
+        const run: FakeRun = { prompt, options, finish, interrupt: jest.fn(() => finish()) };
+        runs.push(run);
+        return {
+            interrupt: run.interrupt,
+            close: jest.fn(),
+            async *[Symbol.asyncIterator]() {
+                yield { type: 'system', subtype: 'init', session_id: 'session-1' };
+                await done;
+            }
+        };
+    });
+});
+
+afterEach(() => {
+    clearAllSessions();
+});
+
+describe('message queue', () => {
+    it('queues follow-ups behind the in-flight run and runs them in order', async () => {
+        const events: string[] = [];
+        sendMessage('C1', 'first', createCallbacks(events, 'first'));
+        await tick();
+        sendMessage('C1', 'second', createCallbacks(events, 'second'));
+        sendMessage('C1', 'third', createCallbacks(events, 'third'));
+        await tick();
+
+        expect(runs.map(run => run.prompt)).toEqual(['first']);
+        expect(events).toEqual(['second queued #2', 'third queued #3']);
+
+        runs[0].finish();
+        await tick();
+        expect(runs.map(run => run.prompt)).toEqual(['first', 'second']);
+        expect(events.slice(2)).toEqual(['first complete', 'third queued #2', 'second dequeued']);
+
+        runs[1].finish();
+        await tick();
+        runs[2].finish();
+        await tick();
+        expect(runs.map(run => run.prompt)).toEqual(['first', 'second', 'third']);
+        expect(events.slice(-1)).toEqual(['third complete']);
+    });
+
+    it('cancels a queued message and renumbers the rest', async () => {
+        const events: string[] = [];
+        let secondId = '';
+        sendMessage('C1', 'first', createCallbacks(events, 'first'));
+        await tick();
+        sendMessage('C1', 'second', createCallbacks(events, 'second', {
+            onQueued: (queueId, position) => {
+                secondId = queueId;
+                events.push(`second queued #${position}`);
+            }
+        }));
+        sendMessage('C1', 'third', createCallbacks(events, 'third'));
+        await tick();
+
+        expect(cancelQueuedMessage(secondId)).toBe(true);
+        await tick();
+        expect(events).toEqual(['second queued #2', 'third queued #3', 'third queued #2', 'second cancelled']);
+
+        runs[0].finish();
+        await tick();
+        expect(runs.map(run => run.prompt)).toEqual(['first', 'third']);
+    });
+
+    it('steer interrupts the in-flight run and jumps the queue', async () => {
+        const events: string[] = [];
+        sendMessage('C1', 'first', createCallbacks(events, 'first'));
+        await tick();
+        sendMessage('C1', 'queued', createCallbacks(events, 'queued'));
+        await tick();
+        sendMessage('C1', 'redirect', createCallbacks(events, 'redirect', { steer: true }));
+        await tick();
+
+        expect(runs[0].interrupt).toHaveBeenCalled();
+        expect(runs.map(run => run.prompt)).toEqual(['first', 'redirect']);
+        expect(runs[1].options.resume).toBe('session-1');
+    });
+
+    it('interrupts only the run a stop request names', async () => {
+        const events: string[] = [];
+        sendMessage('C1', 'first', createCallbacks(events, 'first', { runId: 'run-1' }));
+        await tick();
+        sendMessage('C1', 'second', createCallbacks(events, 'second', { runId: 'run-2' }));
+        await tick();
+
+        runs[0].finish();
+        await tick();
+        expect(interruptSession('C1', 'run-1')).toBe(false);
+        expect(runs[1].interrupt).not.toHaveBeenCalled();
+
+        expect(interruptSession('C1', 'run-2')).toBe(true);
+        expect(runs[1].interrupt).toHaveBeenCalled();
+        await tick();
+        expect(interruptSession('C1')).toBe(false);
+    });
+
+    it('keeps sessions independent', async () => {
+        const events: string[] = [];
+        sendMessage('C1', 'one', createCallbacks(events, 'one'));
+        sendMessage('C2', 'two', createCallbacks(events, 'two'));
+        await tick();
+
+        expect(runs.map(run => run.prompt)).toEqual(['one', 'two']);
+        expect(events).toEqual([]);
+    });
+});
+
+describe('run options', () => {
+    const originalFallback = config.fallbackModel;
+
+    afterEach(() => {
+        config.fallbackModel = originalFallback;
+    });
+
+    /**
+     * Start a run with the given model and return the options passed to the SDK
+     */
+    async function startRun(sessionKey: string, model?: string): Promise<any> {
+        sendMessage(sessionKey, 'hello', createCallbacks([], 'run', { model }));
+        await tick();
+        return runs[runs.length - 1].options;
+    }
+
+    it('passes the fallback unless it is the same model as the main one', async () => {
+        config.fallbackModel = 'claude-sonnet-4-5';
+        expect((await startRun('CO1')).fallbackModel).toBe('claude-sonnet-4-5');
+        expect((await startRun('CO2', 'sonnet')).fallbackModel).toBeUndefined();
+        expect((await startRun('CO3', 'claude-sonnet-4-5-20250929')).fallbackModel).toBeUndefined();
+        expect((await startRun('CO4', 'opus')).fallbackModel).toBe('claude-sonnet-4-5');
+
+        config.fallbackModel = 'haiku';
+        expect((await startRun('CO5', 'claude-haiku-4-5')).fallbackModel).toBeUndefined();
+        expect((await startRun('CO6', 'claude-opus-4-1')).fallbackModel).toBe('haiku');
+    });
+});
+
+describe('tool gating', () => {
+    it('limits the available tools without auto-approving them', async () => {
+        sendMessage('CT1', 'hello', createCallbacks([], 'run', {
+            allowedTools: ['Read', 'Bash', 'mcp__github__create_issue'],
+            disallowedTools: ['Bash']
+        }));
+        await tick();
+
+        const { options } = runs[0];
+        expect(options.tools).toEqual(['Read', 'Bash', 'AskUserQuestion', 'ExitPlanMode', 'TodoWrite']);
+        expect(options.allowedTools).toBeUndefined();
+        expect(options.disallowedTools).toEqual(['Bash']);
+    });
+
+    it('refuses tools outside the list and asks for the rest', async () => {
+        const onToolApproval = jest.fn(async () => true);
+        sendMessage('CT2', 'hello', createCallbacks([], 'run', {
+            allowedTools: ['Read', 'mcp__github__create_issue'],
+            disallowedTools: ['mcp__github__delete_repo'],
+            onToolApproval
+        }));
+        await tick();
+
+        const { canUseTool } = runs[0].options;
+        await expect(canUseTool('Write', {})).resolves.toMatchObject({ behavior: 'deny' });
+        await expect(canUseTool('mcp__github__delete_repo', {})).resolves.toMatchObject({ behavior: 'deny' });
+        expect(onToolApproval).not.toHaveBeenCalled();
+
+        await expect(canUseTool('mcp__github__create_issue', {})).resolves.toMatchObject({ behavior: 'allow' });
+        await expect(canUseTool('TodoWrite', { todos: [] })).resolves.toMatchObject({ behavior: 'allow' });
+        expect(onToolApproval.mock.calls.map((call: any[]) => call[0].toolName)).toEqual(['mcp__github__create_issue', 'TodoWrite']);
+    });
+
+    it('defaults to the configured lists', async () => {
+        sendMessage('CT3', 'hello', createCallbacks([], 'run'));
+        await tick();
+        expect(runs[0].options.tools).toEqual(expect.arrayContaining([...config.allowedTools, 'ExitPlanMode']));
+    });
+});
+
+describe('policy hook', () => {
+    it('denies through a PreToolUse hook so every permission mode is covered', async () => {
+        const onPolicyCheck = jest.fn(async (toolName: string) => toolName === 'Bash' ? 'Blocked by permission policy' : null);
+        sendMessage('CH1', 'hello', createCallbacks([], 'run', { permissionMode: 'bypassPermissions', onPolicyCheck }));
+        await tick();
+
+        const [hook] = runs[0].options.hooks.PreToolUse[0].hooks;
+        await expect(hook({ tool_name: 'Bash', tool_input: { command: 'rm -rf /' } })).resolves.toEqual({
+            hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'Blocked by permission policy' }
+        });
+        await expect(hook({ tool_name: 'Read', tool_input: { file_path: 'a.ts' } })).resolves.toEqual({});
+        expect(onPolicyCheck).toHaveBeenCalledWith('Bash', { command: 'rm -rf /' });
+    });
+});
+
+describe('clearChannelSessions', () => {
+    it('clears the channel session and every thread session in it', async () => {
+        sendMessage('CC1:100.1', 'live thread', createCallbacks([], 'live'));
+        await tick();
+        updateStoredState('CC1', { sessionId: 'channel-session', model: 'opus' });
+        updateStoredState('CC1:200.2', { sessionId: 'idle-thread' });
+        updateStoredState('CC10:300.3', { sessionId: 'other-channel' });
+
+        expect(clearChannelSessions('CC1').sort()).toEqual(['CC1', 'CC1:100.1', 'CC1:200.2']);
+        expect(runs[0].options.abortSignal.aborted).toBe(true);
+        expect(getStoredState('CC1')).toMatchObject({ model: 'opus' });
+        expect(getStoredState('CC1')?.sessionId).toBeUndefined();
+        expect(getStoredState('CC1:200.2')).toBeUndefined();
+        expect(getStoredState('CC10:300.3')?.sessionId).toBe('other-channel');
+    });
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createMemorySessionStore,
+    createFileSessionStore,
+    initSessionStore,
+    getStoredState,
+    updateStoredState,
+    clearStoredState,
+    pruneThreadStates
+} from '../sessionStore';
+
+describe('createFileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips state through the file', () => {
+        const filePath = path.join(dir, 'nested', 'sessions.json');
+        const store = createFileSessionStore(filePath);
+        store.save({ C1: { sessionId: 'abc', workingDir: '/repo' } });
+
+        expect(createFileSessionStore(filePath).load()).toEqual({ C1: { sessionId: 'abc', workingDir: '/repo' } });
+        expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+
+    it('loads nothing when the file is missing, empty or corrupt', () => {
+        const filePath = path.join(dir, 'sessions.json');
+        expect(createFileSessionStore(filePath).load()).toEqual({});
+
+        fs.writeFileSync(filePath, '');
+        expect(createFileSessionStore(filePath).load()).toEqual({});
+
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        fs.writeFileSync(filePath, '{ not json');
+        expect(createFileSessionStore(filePath).load()).toEqual({});
+    });
+});
+
+describe('stored state', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    it('loads state from the store on init', () => {
+        const store = createMemorySessionStore();
+        store.save({ C1: { permissionMode: 'acceptEdits' } });
+
+        expect(initSessionStore(store)).toBe(1);
+        expect(getStoredState('C1')).toEqual({ permissionMode: 'acceptEdits' });
+    });
+
+    it('merges updates and writes them through', () => {
+        const store = createMemorySessionStore();
+        initSessionStore(store);
+
+        updateStoredState('C1', { sessionId: 'abc' });
+        updateStoredState('C1', { workingDir: '/repo' });
+
+        expect(store.load().C1).toMatchObject({ sessionId: 'abc', workingDir: '/repo' });
+    });
+
+    it('removes fields, and the key once nothing is left', () => {
+        const store = createMemorySessionStore();
+        initSessionStore(store);
+        updateStoredState('C1', { sessionId: 'abc', workingDir: '/repo' });
+
+        clearStoredState('C1', ['sessionId']);
+        expect(getStoredState('C1')).toMatchObject({ workingDir: '/repo' });
+        expect(getStoredState('C1')?.sessionId).toBeUndefined();
+
+        clearStoredState('C1', ['workingDir']);
+        expect(getStoredState('C1')).toBeUndefined();
+        expect(store.load()).toEqual({});
+    });
+
+    it('prunes idle thread sessions but keeps channel entries', () => {
+        const day = 24 * 60 * 60 * 1000;
+        const store = createMemorySessionStore();
+        store.save({
+            C1: { workingDir: '/repo', updatedAt: Date.now() - 100 * day },
+            'C1:111.1': { sessionId: 'old', updatedAt: Date.now() - 20 * day },
+            'C1:222.2': { sessionId: 'recent', updatedAt: Date.now() - day }
+        });
+        initSessionStore(store);
+
+        expect(getStoredState('C1')).toBeDefined();
+        expect(getStoredState('C1:111.1')).toBeUndefined();
+        expect(getStoredState('C1:222.2')).toBeDefined();
+        expect(Object.keys(store.load()).sort()).toEqual(['C1', 'C1:222.2']);
+
+        expect(pruneThreadStates(0)).toBe(0);
+        expect(pruneThreadStates(day / 2)).toBe(1);
+        expect(getStoredState('C1:222.2')).toBeUndefined();
+    });
+});
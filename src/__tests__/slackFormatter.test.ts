@@ -0,0 +1,310 @@
+import {
+    markdownToMrkdwn,
+    formatAssistantMessage,
+    splitMessageChunks,
+    previewToolOutput,
+    formatToolResult,
+    formatDuration,
+    formatProgressCard,
+    formatProgressSummary,
+    formatResultFooter,
+    formatSpend
+} from '../slackFormatter';
+
+describe('markdownToMrkdwn', () => {
+    describe('code blocks', () => {
+        it('keeps fenced code intact and drops the language hint', () => {
+            const input = '```ts\nconst a = **b**;\n# not a heading\n```';
+            expect(markdownToMrkdwn(input)).toBe('```\nconst a = **b**;\n# not a heading\n```');
+        });
+
+        it('escapes control characters inside code', () => {
+            expect(markdownToMrkdwn('```\nif (a < b && c > d) {}\n```'))
+                .toBe('```\nif (a &lt; b &amp;&amp; c &gt; d) {}\n```');
+        });
+
+        it('closes an unterminated fence', () => {
+            expect(markdownToMrkdwn('```python\nprint(1)')).toBe('```\nprint(1)\n```');
+        });
+
+        it('leaves inline code untouched', () => {
+            expect(markdownToMrkdwn('run `npm **test**` now')).toBe('run `npm **test**` now');
+        });
+    });
+
+    describe('headings', () => {
+        it('turns headings into bold lines', () => {
+            expect(markdownToMrkdwn('# Title\n### Sub section ###')).toBe('*Title*\n*Sub section*');
+        });
+
+        it('does not double-bold emphasized headings', () => {
+            expect(markdownToMrkdwn('## **Summary**')).toBe('*Summary*');
+        });
+    });
+
+    describe('links', () => {
+        it('rewrites Markdown links', () => {
+            expect(markdownToMrkdwn('see [the docs](https://example.com/a?b=1&c=2)'))
+                .toBe('see <https://example.com/a?b=1&c=2|the docs>');
+        });
+
+        it('rewrites images and autolinks', () => {
+            expect(markdownToMrkdwn('![diagram](https://example.com/x.png) <https://example.com>'))
+                .toBe('<https://example.com/x.png|diagram> <https://example.com>');
+        });
+
+        it('escapes link text', () => {
+            expect(markdownToMrkdwn('[a < b](https://example.com)')).toBe('<https://example.com|a &lt; b>');
+        });
+    });
+
+    describe('emphasis', () => {
+        it('converts bold, italic and strikethrough', () => {
+            expect(markdownToMrkdwn('**bold** *italic* __also bold__ ~~gone~~'))
+                .toBe('*bold* _italic_ *also bold* ~gone~');
+        });
+
+        it('converts bold italic', () => {
+            expect(markdownToMrkdwn('***both***')).toBe('*_both_*');
+        });
+
+        it('leaves lone asterisks alone', () => {
+            expect(markdownToMrkdwn('2 * 3 * 4')).toBe('2 * 3 * 4');
+        });
+    });
+
+    describe('escaping', () => {
+        it('escapes &, < and >', () => {
+            expect(markdownToMrkdwn('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+        });
+
+        it('keeps block quotes', () => {
+            expect(markdownToMrkdwn('> quoted **text**')).toBe('>quoted *text*');
+        });
+    });
+
+    describe('lists', () => {
+        it('renders bullets with nesting', () => {
+            const input = '- one\n  - two\n    - three\n- **four**';
+            expect(markdownToMrkdwn(input)).toBe('• one\n    ◦ two\n        ▪ three\n• *four*');
+        });
+
+        it('keeps numbered items and nests under them', () => {
+            expect(markdownToMrkdwn('1. first\n2) second\n   * child'))
+                .toBe('1. first\n2. second\n    ◦ child');
+        });
+
+        it('renders task lists', () => {
+            expect(markdownToMrkdwn('- [ ] todo\n- [x] done')).toBe('☐ todo\n☑ done');
+        });
+    });
+
+    describe('tables', () => {
+        it('renders tables as aligned code blocks', () => {
+            const input = [
+                '| Name | Count | Status |',
+                '|------|------:|:------:|',
+                '| **alpha** | 1 | ok |',
+                '| b | 1000 | failed |'
+            ].join('\n');
+            expect(markdownToMrkdwn(input)).toBe([
+                '```',
+                'Name  | Count | Status',
+                '------+-------+-------',
+                'alpha |     1 |   ok',
+                'b     |  1000 | failed',
+                '```'
+            ].join('\n'));
+        });
+
+        it('escapes table cells', () => {
+            const input = '| a | b |\n|---|---|\n| x<y | &amp |';
+            expect(markdownToMrkdwn(input)).toBe('```\na   | b\n----+-----\nx&lt;y | &amp;amp\n```');
+        });
+    });
+});
+
+describe('formatAssistantMessage', () => {
+    it('converts Markdown into a mrkdwn section', () => {
+        const blocks = formatAssistantMessage('# Done\n**All** tests pass');
+        expect(blocks).toEqual([{ type: 'section', text: { type: 'mrkdwn', text: '*Done*\n*All* tests pass' } }]);
+    });
+
+    it('closes a code block cut off by truncation', () => {
+        const blocks = formatAssistantMessage('```\n' + 'x\n'.repeat(2000) + '```');
+        const text: string = blocks[0].text.text;
+        expect(text.endsWith('_(truncated)_')).toBe(true);
+        expect((text.match(/```/g) || []).length % 2).toBe(0);
+    });
+});
+
+describe('splitMessageChunks', () => {
+    const paragraph = (n: number) => `Paragraph ${n} ` + 'word '.repeat(30);
+
+    it('keeps short content in one chunk', () => {
+        expect(splitMessageChunks('hello\n\nworld')).toEqual(['hello\n\nworld']);
+    });
+
+    it('splits at paragraph boundaries', () => {
+        const content = [1, 2, 3, 4].map(paragraph).join('\n\n');
+        const chunks = splitMessageChunks(content, 400);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.length).toBeLessThanOrEqual(400);
+            expect(chunk.startsWith('Paragraph')).toBe(true);
+        }
+        expect(chunks.join('\n\n')).toBe(content);
+    });
+
+    it('never cuts a code block that fits', () => {
+        const code = '```ts\n' + 'const x = 1;\n'.repeat(10) + '```';
+        const chunks = splitMessageChunks(`${paragraph(1)}\n\n${code}\n\n${paragraph(2)}`, 250);
+        expect(chunks).toContain(code);
+    });
+
+    it('re-fences code blocks that are too long for one message', () => {
+        const code = '```\n' + Array.from({ length: 60 }, (_, i) => `line ${i}`).join('\n') + '\n```';
+        const chunks = splitMessageChunks(code, 200);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.startsWith('```\n')).toBe(true);
+            expect(chunk.endsWith('\n```')).toBe(true);
+            expect(markdownToMrkdwn(chunk).length).toBeLessThanOrEqual(200);
+        }
+    });
+
+    it('never cuts a table that fits', () => {
+        const table = '| Name | Count |\n|---|---:|\n' + Array.from({ length: 8 }, (_, i) => `| item ${i} | ${i} |`).join('\n');
+        const chunks = splitMessageChunks(`${paragraph(1)}\n${table}\n${paragraph(2)}`, 300);
+        expect(chunks).toContain(table);
+    });
+
+    it('repeats the header of tables that are too long for one message', () => {
+        const rows = Array.from({ length: 40 }, (_, i) => `| item ${i} | ${i} |`);
+        const chunks = splitMessageChunks('| Name | Count |\n|---|---:|\n' + rows.join('\n'), 300);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.startsWith('| Name | Count |\n|---|---:|\n| item')).toBe(true);
+            expect(markdownToMrkdwn(chunk).startsWith('```\nName')).toBe(true);
+            expect(markdownToMrkdwn(chunk).length).toBeLessThanOrEqual(300);
+        }
+        expect(chunks.flatMap(chunk => chunk.split('\n').slice(2))).toEqual(rows);
+    });
+
+    it('cuts a single over-long line at spaces', () => {
+        const chunks = splitMessageChunks('word '.repeat(100).trim(), 120);
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.length <= 120 && !chunk.startsWith(' '))).toBe(true);
+    });
+});
+
+describe('tool results', () => {
+    it('keeps short output whole', () => {
+        expect(previewToolOutput('ok\n\n')).toEqual({ preview: 'ok', truncated: false });
+    });
+
+    it('truncates long output by lines', () => {
+        const output = Array.from({ length: 40 }, (_, i) => `line ${i}`).join('\n');
+        const { preview, truncated } = previewToolOutput(output);
+        expect(truncated).toBe(true);
+        expect(preview.split('\n')).toHaveLength(15);
+    });
+
+    it('flags errors and offers the full output when truncated', () => {
+        const blocks = formatToolResult('boom <x>', true, true, 'out-1');
+        expect(blocks[0].text.text).toBe('🔴 *Error*\n```boom &lt;x&gt;\n…```');
+        expect(blocks[1].elements[0]).toMatchObject({ action_id: 'show_tool_output', value: 'out-1' });
+    });
+
+    it('shows empty output as a note', () => {
+        expect(formatToolResult('', false, false)).toEqual([
+            { type: 'section', text: { type: 'mrkdwn', text: '↳ *Output*\n_(no output)_' } }
+        ]);
+    });
+});
+
+describe('progress card', () => {
+    const state = {
+        startedAt: Date.now() - 65_000,
+        toolCount: 3,
+        currentStep: '💻 *Bash* `npm test`',
+        todos: [
+            { content: 'Write tests', status: 'completed' as const },
+            { content: 'Fix bug', status: 'in_progress' as const, activeForm: 'Fixing bug' },
+            { content: 'Update docs', status: 'pending' as const }
+        ]
+    };
+
+    it('formats durations', () => {
+        expect(formatDuration(42_000)).toBe('42s');
+        expect(formatDuration(185_000)).toBe('3m 05s');
+        expect(formatDuration(3_720_000)).toBe('1h 02m');
+    });
+
+    it('renders todos, the current step and a Stop button', () => {
+        const blocks = formatProgressCard(state, 'C1|U1');
+        expect(blocks[0].elements[0].text).toContain('1m 05s');
+        expect(blocks[0].elements[0].text).toContain('3 tools used · ☑ 1/3 tasks');
+        expect(blocks[1].elements[0].text).toBe('▶️ 💻 *Bash* `npm test`');
+        expect(blocks[2].text.text).toBe('☑ ~Write tests~\n◐ *Fixing bug*\n☐ Update docs');
+        expect(blocks[3].elements[0]).toMatchObject({ action_id: 'stop_run', value: 'C1|U1' });
+    });
+
+    it('collapses into a summary', () => {
+        const blocks = formatProgressSummary({ ...state, endedAt: state.startedAt + 12_000 }, 'stopped', 'U2');
+        expect(blocks).toEqual([{
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: '⏹️ Stopped by <@U2> after 12s · 🔧 3 tools used · ☑ 1/3 tasks' }]
+        }]);
+    });
+});
+
+describe('formatResultFooter', () => {
+    const result = {
+        type: 'result',
+        subtype: 'success',
+        total_cost_usd: 0.04213,
+        duration_ms: 72_000,
+        num_turns: 8,
+        modelUsage: {
+            'claude-sonnet-4-5': { inputTokens: 1200, outputTokens: 950, cacheReadInputTokens: 11_000, cacheCreationInputTokens: 100 }
+        },
+        permission_denials: []
+    };
+
+    it('shows cost, wall time, turns, tokens and models', () => {
+        expect(formatResultFooter(result, 0.04213)).toEqual([{
+            type: 'context',
+            elements: [{
+                type: 'mrkdwn',
+                text: '💰 $0.0421 · ⏱️ 1m 12s · 🔄 8 turns · 🔤 12k in (11k cached) / 950 out · 🤖 claude-sonnet-4-5'
+            }]
+        }]);
+    });
+
+    it('warns when the run hit the turn limit', () => {
+        const blocks = formatResultFooter({ ...result, subtype: 'error_max_turns' }, 0.04213);
+        expect(blocks).toHaveLength(2);
+        expect(blocks[0].text.text).toContain('turn limit (8 turns)');
+    });
+
+    it('includes the first execution error', () => {
+        const blocks = formatResultFooter({ ...result, subtype: 'error_during_execution', errors: ['spawn <claude> ENOENT'] }, 0.04213);
+        expect(blocks[0].text.text).toBe('⚠️ *Run stopped early*\nThe run failed during execution: spawn &lt;claude&gt; ENOENT');
+    });
+
+    it('shows the given run cost instead of the SDK total', () => {
+        expect(formatResultFooter(result, 1.5)[0].elements[0].text).toMatch(/^💰 \$1\.5000 · /);
+    });
+});
+
+describe('formatSpend', () => {
+    it('shows spend against the budget', () => {
+        expect(formatSpend(1.2, 10)).toBe('$1.20 of $10.00 (12%)');
+        expect(formatSpend(10.5, 10)).toBe('$10.50 of $10.00 (105%)');
+    });
+
+    it('shows only the spend without a budget', () => {
+        expect(formatSpend(0.456, 0)).toBe('$0.46');
+    });
+});
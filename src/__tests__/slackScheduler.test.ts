@@ -0,0 +1,164 @@
+import { config } from '../config';
+import { scheduleUpdate, flushUpdates, schedulePost, getSchedulerClient, getSchedulerStats } from '../slackScheduler';
+
+// Queues and rate-limit pauses are kept per channel, so each test uses its own channel
+
+/**
+ * Error shaped like the Slack client's rate-limit rejection
+ */
+function rateLimitedError(retryAfter: number) {
+    return Object.assign(new Error('rate limited'), { code: 'slack_webapi_rate_limited_error', retryAfter });
+}
+
+/**
+ * Difference between two stats snapshots
+ */
+function statsSince(before: ReturnType<typeof getSchedulerStats>) {
+    const after = getSchedulerStats();
+    return {
+        posted: after.posted - before.posted,
+        updated: after.updated - before.updated,
+        merged: after.merged - before.merged,
+        dropped: after.dropped - before.dropped,
+        rateLimited: after.rateLimited - before.rateLimited
+    };
+}
+
+const originalRate = config.slackUpdatesPerSecond;
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    config.slackUpdatesPerSecond = 1;
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    config.slackUpdatesPerSecond = originalRate;
+});
+
+describe('scheduleUpdate', () => {
+    it('sends only the latest of several quick updates', async () => {
+        const before = getSchedulerStats();
+        const sent: string[] = [];
+        for (const text of ['a', 'ab', 'abc']) {
+            scheduleUpdate('C1:msg', 'C1', async () => { sent.push(text); });
+        }
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(sent).toEqual(['abc']);
+        expect(statsSince(before)).toMatchObject({ updated: 1, merged: 2 });
+    });
+
+    it('spaces updates to the same message by the configured rate', async () => {
+        const sent: string[] = [];
+        scheduleUpdate('C2:msg', 'C2', async () => { sent.push('first'); });
+        await jest.advanceTimersByTimeAsync(0);
+
+        scheduleUpdate('C2:msg', 'C2', async () => { sent.push('second'); });
+        await jest.advanceTimersByTimeAsync(999);
+        expect(sent).toEqual(['first']);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(sent).toEqual(['first', 'second']);
+    });
+
+    it('flushes the final state right away', async () => {
+        const sent: string[] = [];
+        scheduleUpdate('C3:msg', 'C3', async () => { sent.push('first'); });
+        await jest.advanceTimersByTimeAsync(0);
+        scheduleUpdate('C3:msg', 'C3', async () => { sent.push('final'); });
+
+        await flushUpdates('C3:msg');
+        expect(sent).toEqual(['first', 'final']);
+    });
+
+    it('drops an update that fails without throwing', async () => {
+        const before = getSchedulerStats();
+        scheduleUpdate('C4:msg', 'C4', async () => { throw new Error('message_not_found'); });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(statsSince(before)).toMatchObject({ updated: 0, dropped: 1 });
+    });
+});
+
+describe('schedulePost', () => {
+    it('sends pending updates in the channel before the post', async () => {
+        const calls: string[] = [];
+        scheduleUpdate('C5:msg', 'C5', async () => { calls.push('update'); });
+        scheduleUpdate('C5-other:msg', 'C5-other', async () => { calls.push('other channel'); });
+
+        await schedulePost('C5', async () => { calls.push('post'); });
+        expect(calls).toEqual(['update', 'post']);
+        await jest.advanceTimersByTimeAsync(0);
+    });
+
+    it('keeps posts in order per channel', async () => {
+        const calls: string[] = [];
+        const slow = schedulePost('C6', async () => {
+            await new Promise(resolve => setTimeout(resolve, 500));
+            calls.push('slow');
+        });
+        const fast = schedulePost('C6', async () => { calls.push('fast'); });
+
+        await jest.advanceTimersByTimeAsync(500);
+        await Promise.all([slow, fast]);
+        expect(calls).toEqual(['slow', 'fast']);
+    });
+
+    it('retries after Retry-After when rate limited', async () => {
+        const before = getSchedulerStats();
+        const fn = jest.fn()
+            .mockRejectedValueOnce(rateLimitedError(2))
+            .mockResolvedValueOnce({ ts: '1.1' });
+
+        const post = schedulePost('C7', fn);
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        await expect(post).resolves.toEqual({ ts: '1.1' });
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(statsSince(before)).toMatchObject({ posted: 1, rateLimited: 1 });
+    });
+
+    it('backs off exponentially and gives up after the retries', async () => {
+        const before = getSchedulerStats();
+        const fn = jest.fn().mockRejectedValue({ data: { error: 'ratelimited' } });
+
+        const post = schedulePost('C8', fn);
+        const outcome = expect(post).rejects.toEqual({ data: { error: 'ratelimited' } });
+        await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+        await outcome;
+        expect(fn).toHaveBeenCalledTimes(4);
+        expect(statsSince(before)).toMatchObject({ posted: 0, dropped: 1, rateLimited: 4 });
+    });
+
+    it('does not retry other errors', async () => {
+        const fn = jest.fn().mockRejectedValue(new Error('channel_not_found'));
+        await expect(schedulePost('C9', fn)).rejects.toThrow('channel_not_found');
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        // The queue keeps working after a failure
+        await expect(schedulePost('C9', async () => 'ok')).resolves.toBe('ok');
+    });
+});
+
+describe('getSchedulerClient', () => {
+    it('uses a client that rejects rate-limited calls, one per token', () => {
+        const appClient = { token: 'xoxb-test' };
+        const schedulerClient = getSchedulerClient(appClient);
+        expect(schedulerClient).not.toBe(appClient);
+        expect(schedulerClient.token).toBe('xoxb-test');
+        expect(schedulerClient.rejectRateLimitedCalls).toBe(true);
+        expect(getSchedulerClient({ token: 'xoxb-test' })).toBe(schedulerClient);
+    });
+
+    it('keeps a client without a token as is', () => {
+        const fake = { chat: {} };
+        expect(getSchedulerClient(fake)).toBe(fake);
+    });
+});
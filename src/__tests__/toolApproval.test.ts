@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config';
+import { UserQuestion } from '../sdkSession';
+import {
+    requestApproval,
+    requestQuestionForm,
+    requestUserQuestion,
+    handleQuestionFormAnswers,
+    getPendingQuestionForm,
+    cancelUserApprovals
+} from '../toolApproval';
+
+const questions: UserQuestion[] = [
+    { question: 'Which database?', header: 'DB', options: [{ label: 'Postgres', value: 'Postgres' }, { label: 'SQLite', value: 'SQLite' }] },
+    { question: 'Add tests?', options: [{ label: 'Yes', value: 'Yes' }, { label: 'No', value: 'No' }] }
+];
+
+/**
+ * Fake Slack client whose postMessage succeeds (or fails)
+ */
+function createClient(fail: boolean = false) {
+    return {
+        chat: {
+            postMessage: jest.fn(async () => {
+                if (fail) throw new Error('channel_not_found');
+                return { ts: '111.1' };
+            }),
+            update: jest.fn(async () => ({}))
+        },
+        files: { uploadV2: jest.fn(async (_args: any) => ({})) }
+    };
+}
+
+/**
+ * Let pending promises settle
+ */
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+let dir: string;
+const originalConfig = { ...config };
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-approval-'));
+    config.auditLogPath = path.join(dir, 'audit.jsonl');
+    config.questionTimeoutMs = 0;
+    config.toolApprovalTimeoutMs = 0;
+});
+
+afterAll(() => {
+    Object.assign(config, originalConfig);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('requestQuestionForm', () => {
+    it('resolves with the submitted answers', async () => {
+        const answers = requestQuestionForm(createClient(), 'C1', 'U1', 'form-1', questions);
+        await tick();
+
+        expect(handleQuestionFormAnswers('form-1', ['SQLite', 'Yes'])).toBe(true);
+        await expect(answers).resolves.toEqual(['SQLite', 'Yes']);
+        expect(getPendingQuestionForm('form-1')).toBeUndefined();
+    });
+
+    it('rejects instead of guessing answers when the form cannot be posted', async () => {
+        await expect(requestQuestionForm(createClient(true), 'C1', 'U1', 'form-2', questions)).rejects.toThrow('channel_not_found');
+        expect(getPendingQuestionForm('form-2')).toBeUndefined();
+    });
+});
+
+describe('requestApproval', () => {
+    /**
+     * Post an approval card for writing a new file and return the posted blocks
+     */
+    async function postWriteCard(client: ReturnType<typeof createClient>, content: string, requestId: string): Promise<any[]> {
+        const approval = requestApproval(client, 'C2', 'U1', requestId, 'Write', { file_path: 'src/App.tsx', content }, { cwd: '/nonexistent' });
+        await tick();
+        cancelUserApprovals('C2');
+        await approval;
+        return (client.chat.postMessage.mock.calls as any[][])[0][0].blocks;
+    }
+
+    it('shows a small diff inline', async () => {
+        const client = createClient();
+        const blocks = await postWriteCard(client, '<div>hi</div>\n', 'approval-1');
+        expect(blocks.some(block => block.text?.text?.includes('&lt;div&gt;hi&lt;/div&gt;'))).toBe(true);
+        expect(client.files.uploadV2).not.toHaveBeenCalled();
+    });
+
+    it('uploads a diff that only outgrows the section limit once escaped', async () => {
+        const client = createClient();
+        // About 2,450 raw characters, over 7,000 once < and > are escaped
+        const content = '<><>\n'.repeat(400);
+        const blocks = await postWriteCard(client, content, 'approval-2');
+        expect(blocks.every(block => (block.text?.text?.length ?? 0) <= 3000)).toBe(true);
+        expect(client.files.uploadV2).toHaveBeenCalledWith(expect.objectContaining({ filename: 'App.tsx.diff' }));
+    });
+});
+
+describe('timeouts and aborts', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+        config.toolApprovalTimeoutMs = 0;
+    });
+
+    it('reminds in the thread the card was posted in', async () => {
+        jest.useFakeTimers();
+        config.toolApprovalTimeoutMs = 60_000;
+        config.approvalReminder = 'thread';
+        config.approvalReminderBeforeMs = 15_000;
+        const client = createClient();
+        const approval = requestApproval(client, 'C3', 'U1', 'approval-3', 'Bash', { command: 'ls' }, { threadTs: '100.1' });
+
+        await jest.advanceTimersByTimeAsync(45_000);
+        expect(client.chat.postMessage).toHaveBeenLastCalledWith({
+            channel: 'C3',
+            thread_ts: '100.1',
+            text: '⏰ <@U1> this tool approval times out in 15s.'
+        });
+
+        cancelUserApprovals('C3');
+        await expect(approval).resolves.toBe(false);
+    });
+
+    it('cancels requests when the SDK aborts the tool call', async () => {
+        const client = createClient();
+        const controller = new AbortController();
+        const approval = requestApproval(client, 'C4', 'U1', 'approval-4', 'Bash', { command: 'ls' }, { signal: controller.signal });
+        const form = requestQuestionForm(client, 'C4', 'U1', 'form-5', questions, undefined, controller.signal);
+        await tick();
+
+        controller.abort();
+        await expect(approval).resolves.toBe(false);
+        await expect(form).rejects.toThrow('Question cancelled');
+        expect(getPendingQuestionForm('form-5')).toBeUndefined();
+    });
+});
+
+describe('requestUserQuestion', () => {
+    it('rejects instead of answering with the first option when the question cannot be posted', async () => {
+        await expect(requestUserQuestion(createClient(true), 'C1', 'U1', 'question-2', 'Proceed?', questions[1].options)).rejects.toThrow('channel_not_found');
+    });
+});
+
+describe('cancelUserApprovals', () => {
+    it('cancels pending questions and forms in the thread', async () => {
+        const client = createClient();
+        const form = requestQuestionForm(client, 'C1', 'U1', 'form-3', questions, '100.1');
+        const question = requestUserQuestion(client, 'C1', 'U1', 'question-1', 'Proceed?', questions[1].options, { threadTs: '100.1' });
+        const otherThread = requestQuestionForm(client, 'C1', 'U1', 'form-4', questions, '200.2');
+        await tick();
+
+        cancelUserApprovals('C1', '100.1');
+        await expect(form).rejects.toThrow('Question cancelled');
+        await expect(question).rejects.toThrow('Question cancelled');
+        expect(getPendingQuestionForm('form-4')).toBeDefined();
+
+        cancelUserApprovals('C1');
+        await expect(otherThread).rejects.toThrow('Question cancelled');
+    });
+});
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config';
+import {
+    createUsageRecord,
+    appendUsageRecord,
+    getPeriodStart,
+    readUsageRecords,
+    summarizeUsage,
+    uploadUsageExport,
+    UsageRecord
+} from '../usageLog';
+
+/**
+ * Build a usage record with defaults
+ */
+function createRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        channelId: 'C1',
+        userId: 'U1',
+        sessionId: 'session-1',
+        models: ['claude-sonnet-4-5'],
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheReadTokens: 10,
+        cacheWriteTokens: 5,
+        costUsd: 0.1,
+        durationMs: 1000,
+        numTurns: 2,
+        finishedAt: '2026-03-11T12:00:00.000Z',
+        ...overrides
+    };
+}
+
+describe('getPeriodStart', () => {
+    it('starts today at local midnight', () => {
+        expect(getPeriodStart('today', new Date(2026, 2, 11, 15, 30))).toEqual(new Date(2026, 2, 11));
+    });
+
+    it('starts weeks on Monday', () => {
+        // 2026-03-09 is a Monday
+        expect(getPeriodStart('week', new Date(2026, 2, 9, 8, 0))).toEqual(new Date(2026, 2, 9));
+        expect(getPeriodStart('week', new Date(2026, 2, 11, 8, 0))).toEqual(new Date(2026, 2, 9));
+        expect(getPeriodStart('week', new Date(2026, 2, 15, 23, 59))).toEqual(new Date(2026, 2, 9));
+    });
+
+    it('reaches back across month and year boundaries', () => {
+        // Sunday 2026-03-01 belongs to the week starting Monday 2026-02-23
+        expect(getPeriodStart('week', new Date(2026, 2, 1))).toEqual(new Date(2026, 1, 23));
+        // Thursday 2026-01-01 belongs to the week starting Monday 2025-12-29
+        expect(getPeriodStart('week', new Date(2026, 0, 1))).toEqual(new Date(2025, 11, 29));
+    });
+
+    it('starts months on the 1st', () => {
+        expect(getPeriodStart('month', new Date(2026, 2, 31, 23, 0))).toEqual(new Date(2026, 2, 1));
+    });
+});
+
+describe('createUsageRecord', () => {
+    it('adds up tokens across models', () => {
+        const record = createUsageRecord({
+            session_id: 'abc',
+            duration_ms: 5000,
+            num_turns: 3,
+            modelUsage: {
+                'claude-opus-4-5': { inputTokens: 10, outputTokens: 20, cacheReadInputTokens: 30, cacheCreationInputTokens: 40 },
+                'claude-haiku-4-5': { inputTokens: 1, outputTokens: 2 }
+            }
+        }, 'C1', 'U1', 0.25, '111.1');
+
+        expect(record).toMatchObject({
+            channelId: 'C1',
+            threadTs: '111.1',
+            userId: 'U1',
+            sessionId: 'abc',
+            models: ['claude-opus-4-5', 'claude-haiku-4-5'],
+            inputTokens: 11,
+            outputTokens: 22,
+            cacheReadTokens: 30,
+            cacheWriteTokens: 40,
+            costUsd: 0.25,
+            durationMs: 5000,
+            numTurns: 3
+        });
+    });
+});
+
+describe('summarizeUsage', () => {
+    const records = [
+        createRecord({ userId: 'U1', costUsd: 0.1 }),
+        createRecord({ userId: 'U2', channelId: 'C2', costUsd: 0.5 }),
+        createRecord({ userId: 'U1', channelId: 'C2', costUsd: 0.2 })
+    ];
+
+    it('totals every record, counting cache tokens as input', () => {
+        const [total] = summarizeUsage(records);
+        expect(total).toMatchObject({ key: '', runs: 3, inputTokens: 345, outputTokens: 150, durationMs: 3000 });
+        expect(total.costUsd).toBeCloseTo(0.8);
+    });
+
+    it('groups by user or channel, highest cost first', () => {
+        expect(summarizeUsage(records, 'user').map(row => [row.key, row.runs])).toEqual([['U2', 1], ['U1', 2]]);
+        expect(summarizeUsage(records, 'channel').map(row => [row.key, row.runs])).toEqual([['C2', 2], ['C1', 1]]);
+        expect(summarizeUsage([])).toEqual([]);
+    });
+});
+
+describe('usage log file', () => {
+    let dir: string;
+    const originalPath = config.usageLogPath;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-log-'));
+        config.usageLogPath = path.join(dir, 'usage.jsonl');
+    });
+
+    afterEach(() => {
+        config.usageLogPath = originalPath;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads records since a time, optionally for one channel', () => {
+        expect(readUsageRecords(new Date(0))).toEqual([]);
+
+        appendUsageRecord(createRecord({ sessionId: 'old', finishedAt: '2026-03-01T00:00:00.000Z' }));
+        appendUsageRecord(createRecord({ sessionId: 'other', channelId: 'C2' }));
+        fs.appendFileSync(config.usageLogPath, '{ corrupt\n');
+        appendUsageRecord(createRecord({ sessionId: 'new' }));
+
+        const since = new Date('2026-03-10T00:00:00.000Z');
+        expect(readUsageRecords(since).map(record => record.sessionId)).toEqual(['other', 'new']);
+        expect(readUsageRecords(since, 'C1').map(record => record.sessionId)).toEqual(['new']);
+    });
+});
+
+describe('uploadUsageExport', () => {
+    /**
+     * Fake Slack client that captures the uploaded file
+     */
+    function createClient() {
+        return { files: { uploadV2: jest.fn(async (_args: any) => ({})) } };
+    }
+
+    it('quotes CSV fields with commas, quotes and newlines', async () => {
+        const client = createClient();
+        const records = [
+            createRecord({ models: ['claude-opus-4-5', 'claude-haiku-4-5'], threadTs: '111.1' }),
+            createRecord({ userId: 'U "quoted", name', sessionId: null, models: [] }),
+            createRecord({ userId: 'line\nbreak' })
+        ];
+        expect(await uploadUsageExport(client, records, 'csv', 'usage.csv', 'C1')).toBe(true);
+
+        const lines = client.files.uploadV2.mock.calls[0][0].content.split('\n');
+        expect(lines[0]).toBe('finishedAt,channelId,threadTs,userId,sessionId,models,inputTokens,outputTokens,' +
+            'cacheReadTokens,cacheWriteTokens,costUsd,durationMs,numTurns');
+        expect(lines[1]).toBe('2026-03-11T12:00:00.000Z,C1,111.1,U1,session-1,claude-opus-4-5;claude-haiku-4-5,100,50,10,5,0.1,1000,2');
+        expect(lines[2]).toBe('2026-03-11T12:00:00.000Z,C1,,"U ""quoted"", name",,,100,50,10,5,0.1,1000,2');
+        expect(lines[3]).toBe('2026-03-11T12:00:00.000Z,C1,,"line');
+        expect(lines[4]).toBe('break",session-1,claude-sonnet-4-5,100,50,10,5,0.1,1000,2');
+    });
+
+    it('exports JSON and reports failed uploads', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const client = createClient();
+        await uploadUsageExport(client, [createRecord()], 'json', 'usage.json', 'C1', '111.1');
+        expect(JSON.parse(client.files.uploadV2.mock.calls[0][0].content)).toEqual([createRecord()]);
+        expect(client.files.uploadV2.mock.calls[0][0]).toMatchObject({ channel_id: 'C1', thread_ts: '111.1', title: 'Usage export (1 run)' });
+
+        client.files.uploadV2.mockRejectedValueOnce(new Error('not_allowed'));
+        expect(await uploadUsageExport(client, [], 'csv', 'usage.csv', 'C1')).toBe(false);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Approver Authorization
+ *
+ * Decides who may click approval and question buttons:
+ * the requester, a configured approver group and/or channel admins
+ * (the channel creator plus workspace admins and owners).
+ */
+
+import { config } from './config';
+
+export type ApproverRule = 'anyone' | 'requester' | 'group' | 'admins';
+
+// Cache lookups so every click doesn't hit the Slack API
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const workspaceAdminCache = new Map<string, { isAdmin: boolean; expires: number }>();
+const channelCreatorCache = new Map<string, { creator: string | null; expires: number }>();
+
+/**
+ * Check whether a user is a workspace admin or owner
+ */
+export async function isWorkspaceAdmin(client: any, userId: string): Promise<boolean> {
+    const cached = workspaceAdminCache.get(userId);
+    if (cached && cached.expires > Date.now()) return cached.isAdmin;
+
+    let isAdmin = false;
+    try {
+        const result = await client.users.info({ user: userId });
+        isAdmin = !!(result.user?.is_admin || result.user?.is_owner || result.user?.is_primary_owner);
+    } catch (err: any) {
+        console.error(`[Auth] Failed to look up user ${userId}:`, err.message);
+    }
+    workspaceAdminCache.set(userId, { isAdmin, expires: Date.now() + CACHE_TTL_MS });
+    return isAdmin;
+}
+
+/**
+ * Get the user who created a channel
+ */
+async function getChannelCreator(client: any, channelId: string): Promise<string | null> {
+    const cached = channelCreatorCache.get(channelId);
+    if (cached && cached.expires > Date.now()) return cached.creator;
+
+    let creator: string | null = null;
+    try {
+        const result = await client.conversations.info({ channel: channelId });
+        creator = result.channel?.creator || null;
+    } catch (err: any) {
+        console.error(`[Auth] Failed to look up channel ${channelId}:`, err.message);
+    }
+    channelCreatorCache.set(channelId, { creator, expires: Date.now() + CACHE_TTL_MS });
+    return creator;
+}
+
+/**
+ * Describe who may approve, for refusal messages
+ */
+export function describeApprovers(requesterId: string): string {
+    const parts: string[] = [];
+    for (const rule of config.approvers) {
+        if (rule === 'requester') parts.push(`the requester (<@${requesterId}>)`);
+        if (rule === 'group' && config.approverUserIds.length > 0) {
+            parts.push(config.approverUserIds.map(id => `<@${id}>`).join(', '));
+        }
+        if (rule === 'admins') parts.push('channel admins');
+    }
+    return parts.join(' or ') || 'nobody';
+}
+
+/**
+ * Check whether a user is a channel admin (the channel creator or a workspace admin)
+ */
+export async function isChannelAdmin(client: any, userId: string, channelId: string): Promise<boolean> {
+    if (await getChannelCreator(client, channelId) === userId) return true;
+    return isWorkspaceAdmin(client, userId);
+}
+
+/**
+ * Check whether a user may act on an approval or question raised by requesterId
+ */
+export async function isAuthorizedApprover(
+    client: any,
+    userId: string,
+    requesterId: string,
+    channelId: string
+): Promise<boolean> {
+    const rules = config.approvers as ApproverRule[];
+
+    if (rules.includes('anyone')) return true;
+    if (rules.includes('requester') && userId === requesterId) return true;
+    if (rules.includes('group') && config.approverUserIds.includes(userId)) return true;
+    if (rules.includes('admins') && await isChannelAdmin(client, userId, channelId)) return true;
+    return false;
+}
@@ -0,0 +1,138 @@
+/**
+ * Approval Audit Log
+ *
+ * Append-only JSONL record of every tool approval decision:
+ * who asked, who decided, what was decided and by which rule.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+
+export type AuditDecision =
+    | 'allow'
+    | 'deny'
+    | 'always'
+    | 'feedback'
+    | 'edited'
+    | 'timeout'
+    | 'cancelled'
+    | 'auto-approved'
+    | 'auto-denied';
+
+export interface AuditEntry {
+    requestId: string;
+    channelId: string;
+    threadTs?: string;
+    requestedBy: string;
+    decidedBy: string;       // Slack user ID, or 'policy' / 'system'
+    toolName: string;
+    inputSummary: string;
+    decision: AuditDecision;
+    rule?: string;           // Policy rule or grant that decided
+    note?: string;
+    requestedAt: string;     // ISO timestamps
+    decidedAt: string;
+}
+
+// Values that look like credentials are masked before logging
+const SECRET_PATTERNS: RegExp[] = [
+    /\bxox[abposr]-[A-Za-z0-9-]+/g,
+    /\bxapp-[A-Za-z0-9-]+/g,
+    /\bsk-[A-Za-z0-9_-]{16,}/g,
+    /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+    /\bAKIA[0-9A-Z]{16}\b/g
+];
+
+// Same, but the key/prefix (first group) is kept
+const SECRET_ASSIGNMENTS: RegExp[] = [
+    /(Bearer\s+)[A-Za-z0-9._~+\/-]+=*/gi,
+    /((?:password|passwd|secret|token|api[_-]?key)\s*[=:]\s*)(?:"[^"]*"|'[^']*'|\S+)/gi
+];
+
+// Longest input summary kept per entry
+const MAX_SUMMARY_LENGTH = 300;
+
+/**
+ * Mask credential-like values in text
+ */
+export function redact(text: string): string {
+    let result = text;
+    for (const pattern of SECRET_PATTERNS) {
+        result = result.replace(pattern, '[REDACTED]');
+    }
+    for (const pattern of SECRET_ASSIGNMENTS) {
+        result = result.replace(pattern, '$1[REDACTED]');
+    }
+    return result;
+}
+
+/**
+ * Summarize a tool input for the log (file contents are never stored)
+ */
+export function summarizeInput(toolName: string, input: any): string {
+    if (!input || typeof input !== 'object') return '';
+
+    let summary: string;
+    if (typeof input.command === 'string') {
+        summary = `command: ${input.command}`;
+    } else if (input.file_path || input.notebook_path) {
+        summary = `file: ${input.file_path || input.notebook_path}`;
+        if (typeof input.content === 'string') summary += ` (${input.content.length} chars)`;
+        if (Array.isArray(input.edits)) summary += ` (${input.edits.length} edits)`;
+    } else if (input.url) {
+        summary = `url: ${input.url}`;
+    } else if (input.pattern) {
+        summary = `pattern: ${input.pattern}${input.path ? ` in ${input.path}` : ''}`;
+    } else if (input.query) {
+        summary = `query: ${input.query}`;
+    } else if (toolName === 'ExitPlanMode') {
+        summary = `plan (${(input.plan || '').length} chars)`;
+    } else {
+        summary = JSON.stringify(input);
+    }
+
+    const redacted = redact(summary);
+    return redacted.length > MAX_SUMMARY_LENGTH ? redacted.slice(0, MAX_SUMMARY_LENGTH) + '…' : redacted;
+}
+
+/**
+ * Append an entry to the audit log (notes are redacted like input summaries)
+ */
+export function appendAuditEntry(entry: AuditEntry): void {
+    const logged = entry.note ? { ...entry, note: redact(entry.note) } : entry;
+    try {
+        fs.mkdirSync(path.dirname(config.auditLogPath), { recursive: true });
+        fs.appendFileSync(config.auditLogPath, JSON.stringify(logged) + '\n');
+    } catch (err: any) {
+        console.error('[Audit] Failed to write entry:', err.message);
+    }
+}
+
+/**
+ * Read recent entries for a channel, newest first
+ */
+export function readAuditEntries(channelId: string, limit: number, toolName?: string): AuditEntry[] {
+    let lines: string[];
+    try {
+        if (!fs.existsSync(config.auditLogPath)) return [];
+        lines = fs.readFileSync(config.auditLogPath, 'utf8').split('\n');
+    } catch (err: any) {
+        console.error('[Audit] Failed to read log:', err.message);
+        return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+        if (!lines[i].trim()) continue;
+        try {
+            const entry: AuditEntry = JSON.parse(lines[i]);
+            if (entry.channelId !== channelId) continue;
+            if (toolName && entry.toolName.toLowerCase() !== toolName.toLowerCase()) continue;
+            entries.push(entry);
+        } catch {
+            // Skip corrupt lines
+        }
+    }
+    return entries;
+}
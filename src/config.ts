@@ -1,5 +1,31 @@
 // Configuration with environment variable overrides
 
+import * as path from 'path';
+import type { ModelPrice } from './costTracker';
+
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * Parse MODEL_PRICES (an invalid table is ignored, so runs fall back to the SDK's own cost)
+ */
+function parseModelPrices(raw: string | undefined): Record<string, ModelPrice> {
+    if (!raw) return {};
+    try {
+        const prices = JSON.parse(raw);
+        if (!prices || typeof prices !== 'object' || Array.isArray(prices)) throw new Error('expected an object keyed by model');
+        for (const [model, price] of Object.entries<any>(prices)) {
+            if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+                console.error(`[Config] Ignoring MODEL_PRICES entry "${model}" (input and output must be numbers)`);
+                delete prices[model];
+            }
+        }
+        return prices;
+    } catch (err: any) {
+        console.error(`[Config] Ignoring MODEL_PRICES (${err.message}); using the SDK's built-in prices`);
+        return {};
+    }
+}
+
 export const config = {
     // Default project path for Claude
     defaultProjectPath: process.env.DEFAULT_PROJECT_PATH || process.cwd(),
@@ -7,12 +33,108 @@ export const config = {
     // Tool approval timeout (ms) - must be under SDK's 60s limit
     toolApprovalTimeoutMs: parseInt(process.env.TOOL_APPROVAL_TIMEOUT_MS || '55000'),
 
-    // Allowed tools for Claude
-    allowedTools: (process.env.ALLOWED_TOOLS || 'Read,Write,Edit,Bash,Glob,Grep,WebSearch,WebFetch').split(','),
+    // Remind the requester this long before an approval/question times out (0 = no reminder)
+    approvalReminderBeforeMs: parseInt(process.env.APPROVAL_REMINDER_BEFORE_MS || '15000'),
+
+    // How to remind: 'thread' (mention in a thread reply), 'dm' or 'off'
+    approvalReminder: (process.env.APPROVAL_REMINDER || 'thread') as 'thread' | 'dm' | 'off',
+
+    // Action when an approval times out: 'deny' or 'allow-if-read-only'
+    approvalTimeoutAction: (process.env.APPROVAL_TIMEOUT_ACTION || 'deny') as 'deny' | 'allow-if-read-only',
+
+    // Question timeout (ms) - defaults to the tool approval timeout
+    questionTimeoutMs: parseInt(process.env.QUESTION_TIMEOUT_MS || process.env.TOOL_APPROVAL_TIMEOUT_MS || '55000'),
+
+    // Action when a question times out: 'first-option' or 'cancel'
+    questionTimeoutAction: (process.env.QUESTION_TIMEOUT_ACTION || 'first-option') as 'first-option' | 'cancel',
+
+    // Who may click approval/question buttons: any of 'requester', 'group', 'admins' (or 'anyone')
+    approvers: (process.env.APPROVERS || 'requester,group,admins').split(',').map(s => s.trim()).filter(Boolean),
+
+    // Approver group for the 'group' rule (Slack user IDs)
+    approverUserIds: (process.env.APPROVER_USER_IDS || '').split(',').map(s => s.trim()).filter(Boolean),
+
+    // Default model: an alias (opus, sonnet, haiku) or full model name (empty = CLI default)
+    model: process.env.CLAUDE_MODEL || '',
+
+    // Models channels may choose with `model` (aliases cover every version of that family; empty = any)
+    allowedModels: (process.env.ALLOWED_MODELS || 'opus,sonnet,haiku').split(',').map(s => s.trim()).filter(Boolean),
+
+    // Model to switch to when the primary model is overloaded (empty = none)
+    fallbackModel: process.env.FALLBACK_MODEL || '',
+
+    // Default run limits (0 = no limit)
+    maxTurns: parseInt(process.env.MAX_TURNS || '0'),
+    maxThinkingTokens: parseInt(process.env.MAX_THINKING_TOKENS || '0'),
+
+    // Tools Claude may use, still subject to approval (tools not listed are denied; AskUserQuestion, ExitPlanMode and TodoWrite are always available)
+    allowedTools: (process.env.ALLOWED_TOOLS || 'Read,Write,Edit,Bash,Glob,Grep,WebSearch,WebFetch').split(',').map(s => s.trim()).filter(Boolean),
+
+    // Tools removed from Claude entirely (wins over the allowed list)
+    disallowedTools: (process.env.DISALLOWED_TOOLS || '').split(',').map(s => s.trim()).filter(Boolean),
 
     // Auto-approve safe tools (no confirmation needed)
     autoApproveTools: (process.env.AUTO_APPROVE_TOOLS || 'Read,Glob,Grep').split(','),
 
+    // Session scope: 'channel' (one session per channel) or 'thread' (one per Slack thread)
+    sessionScope: (process.env.SESSION_SCOPE || 'channel') as 'channel' | 'thread',
+
+    // Default display mode: 'full' (tool lines in the channel) or 'compact' (tool activity in a thread)
+    displayMode: (process.env.DISPLAY_MODE || 'full') as 'full' | 'compact',
+
+    // Show tool results (command output, errors) by default
+    showToolResults: process.env.SHOW_TOOL_RESULTS === 'true',
+
+    // Long responses: 'chunk' (split across messages) or 'file' (upload as response.md)
+    longResponseMode: (process.env.LONG_RESPONSE_MODE || 'chunk') as 'chunk' | 'file',
+
+    // In chunk mode, responses longer than this (chars) are still uploaded as a file
+    maxChunkedResponseChars: parseInt(process.env.MAX_CHUNKED_RESPONSE_CHARS || '30000'),
+
+    // Most streaming updates per second for one Slack message (extra updates are merged)
+    slackUpdatesPerSecond: parseFloat(process.env.SLACK_UPDATES_PER_SECOND || '1'),
+
+    // Where run cost comes from: 'sdk' (total_cost_usd) or 'prices' (MODEL_PRICES table)
+    costSource: (process.env.COST_SOURCE || 'sdk') as 'sdk' | 'prices',
+
+    // Per-model prices in USD per million tokens, keyed by model name prefix (JSON)
+    // e.g. {"claude-sonnet-4":{"input":3,"output":15,"cacheRead":0.3,"cacheWrite":3.75}}
+    modelPrices: parseModelPrices(process.env.MODEL_PRICES),
+
+    // Default per-channel budgets in USD (0 = no budget)
+    channelDailyBudgetUsd: parseFloat(process.env.CHANNEL_DAILY_BUDGET_USD || '0'),
+    channelMonthlyBudgetUsd: parseFloat(process.env.CHANNEL_MONTHLY_BUDGET_USD || '0'),
+
+    // Warn the channel when spend reaches this percent of a budget
+    budgetWarningPercent: parseFloat(process.env.BUDGET_WARNING_PERCENT || '80'),
+
+    // Warn when a session's context window is this percent full
+    contextWarningPercent: parseFloat(process.env.CONTEXT_WARNING_PERCENT || '80'),
+
+    // Permission policy file with global allow/deny/ask rules
+    permissionPolicyPath: process.env.PERMISSION_POLICY_PATH || path.join(dataDir, 'policy.json'),
+
     // Path to Claude CLI
     claudePath: process.env.CLAUDE_PATH || 'claude',
+
+    // Directory for persisted bridge state
+    dataDir,
+
+    // Append-only approval audit log (JSONL)
+    auditLogPath: process.env.AUDIT_LOG_PATH || path.join(dataDir, 'audit.jsonl'),
+
+    // Spend per channel/user/day (JSON)
+    costLedgerPath: process.env.COST_LEDGER_PATH || path.join(dataDir, 'costs.json'),
+
+    // Per-run usage records for reporting and export (JSONL)
+    usageLogPath: process.env.USAGE_LOG_PATH || path.join(dataDir, 'usage.jsonl'),
+
+    // Session store backend ('file' or 'memory')
+    sessionStore: process.env.SESSION_STORE || 'file',
+
+    // Session store file (used by the 'file' backend)
+    sessionStorePath: process.env.SESSION_STORE_PATH || path.join(dataDir, 'sessions.json'),
+
+    // Forget thread sessions not used for this many days (0 = keep forever)
+    threadSessionTtlDays: parseFloat(process.env.THREAD_SESSION_TTL_DAYS || '14'),
 };
@@ -0,0 +1,214 @@
+/**
+ * Cost Tracker
+ *
+ * Accumulates dollar cost per channel, per user and per day, and checks
+ * channel spend against daily/monthly budgets before a prompt is sent.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { getStoredState } from './sessionStore';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface ModelPrice {
+    input: number;        // USD per million tokens
+    output: number;
+    cacheRead?: number;
+    cacheWrite?: number;
+}
+
+export interface ChannelBudget {
+    dailyUsd: number;     // 0 = no budget
+    monthlyUsd: number;
+}
+
+export interface BudgetAlert {
+    period: BudgetPeriod;
+    spentUsd: number;
+    budgetUsd: number;
+    exceeded: boolean;    // false = crossed the warning threshold
+}
+
+interface DaySpend {
+    channels: Record<string, number>;
+    users: Record<string, number>;
+}
+
+// Spend per local day ('YYYY-MM-DD')
+let ledger: Record<string, DaySpend> | null = null;
+
+/**
+ * Get the local date key for a time
+ */
+function getDayKey(date: Date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Load the ledger from disk on first use
+ */
+function getLedger(): Record<string, DaySpend> {
+    if (ledger) return ledger;
+    try {
+        ledger = fs.existsSync(config.costLedgerPath)
+            ? JSON.parse(fs.readFileSync(config.costLedgerPath, 'utf8'))
+            : {};
+    } catch (err: any) {
+        console.error(`[Cost] Failed to load ${config.costLedgerPath}:`, err.message);
+        ledger = {};
+    }
+    return ledger!;
+}
+
+/**
+ * Write the ledger to disk (temp file, then rename)
+ */
+function saveLedger(): void {
+    try {
+        fs.mkdirSync(path.dirname(config.costLedgerPath), { recursive: true });
+        const tmpPath = `${config.costLedgerPath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(getLedger(), null, 2));
+        fs.renameSync(tmpPath, config.costLedgerPath);
+    } catch (err: any) {
+        console.error(`[Cost] Failed to save ${config.costLedgerPath}:`, err.message);
+    }
+}
+
+/**
+ * Sum spend for one channel or user over today or this month
+ */
+function sumSpend(kind: 'channels' | 'users', id: string, period: BudgetPeriod): number {
+    const today = getDayKey();
+    const month = today.slice(0, 8);
+    let total = 0;
+    for (const [day, spend] of Object.entries(getLedger())) {
+        if (period === 'daily' ? day !== today : !day.startsWith(month)) continue;
+        total += spend[kind][id] || 0;
+    }
+    return total;
+}
+
+/**
+ * Find the price table entry for a model (longest matching prefix wins)
+ */
+function findModelPrice(model: string): ModelPrice | null {
+    let match: string | null = null;
+    for (const key of Object.keys(config.modelPrices)) {
+        if (model.startsWith(key) && (!match || key.length > match.length)) match = key;
+    }
+    return match ? config.modelPrices[match] : null;
+}
+
+/**
+ * Get the dollar cost of a finished run from its SDK result message
+ * Uses total_cost_usd, or the MODEL_PRICES table when COST_SOURCE=prices
+ * (models missing from the table fall back to the SDK's own cost).
+ */
+export function getRunCost(result: any): number {
+    if (config.costSource !== 'prices') return result?.total_cost_usd || 0;
+
+    let total = 0;
+    for (const [model, usage] of Object.entries<any>(result?.modelUsage || {})) {
+        const price = findModelPrice(model);
+        if (!price) {
+            total += usage.costUSD || 0;
+            continue;
+        }
+        total += ((usage.inputTokens || 0) * price.input +
+            (usage.outputTokens || 0) * price.output +
+            (usage.cacheReadInputTokens || 0) * (price.cacheRead ?? price.input) +
+            (usage.cacheCreationInputTokens || 0) * (price.cacheWrite ?? price.input)) / 1_000_000;
+    }
+    return total;
+}
+
+/**
+ * Get a channel's budgets (channel settings override the configured defaults)
+ */
+export function getChannelBudget(channelId: string): ChannelBudget {
+    const stored = getStoredState(channelId)?.budget;
+    return {
+        dailyUsd: stored?.dailyUsd ?? config.channelDailyBudgetUsd,
+        monthlyUsd: stored?.monthlyUsd ?? config.channelMonthlyBudgetUsd
+    };
+}
+
+/**
+ * Get a channel's spend today and this month
+ */
+export function getChannelSpend(channelId: string): { today: number; month: number } {
+    return { today: sumSpend('channels', channelId, 'daily'), month: sumSpend('channels', channelId, 'monthly') };
+}
+
+/**
+ * Get a user's spend today and this month
+ */
+export function getUserSpend(userId: string): { today: number; month: number } {
+    return { today: sumSpend('users', userId, 'daily'), month: sumSpend('users', userId, 'monthly') };
+}
+
+/**
+ * Check whether an admin override lets a channel run past its budget
+ */
+export function hasBudgetOverride(channelId: string): boolean {
+    const until = getStoredState(channelId)?.budgetOverrideUntil;
+    return !!until && until > Date.now();
+}
+
+/**
+ * Get the budget a channel has used up, if any
+ */
+export function getExceededBudget(channelId: string): BudgetAlert | null {
+    const budget = getChannelBudget(channelId);
+    const spend = getChannelSpend(channelId);
+    const checks: Array<[BudgetPeriod, number, number]> = [
+        ['daily', spend.today, budget.dailyUsd],
+        ['monthly', spend.month, budget.monthlyUsd]
+    ];
+    for (const [period, spentUsd, budgetUsd] of checks) {
+        if (budgetUsd > 0 && spentUsd >= budgetUsd) {
+            return { period, spentUsd, budgetUsd, exceeded: true };
+        }
+    }
+    return null;
+}
+
+/**
+ * Add a run's cost to the channel's and user's spend for today
+ * Returns the budget thresholds (warning or cap) this run crossed.
+ */
+export function recordCost(channelId: string, userId: string, costUsd: number): BudgetAlert[] {
+    if (costUsd <= 0) return [];
+
+    const before = getChannelSpend(channelId);
+    const day = getDayKey();
+    const entries = getLedger();
+    if (!entries[day]) entries[day] = { channels: {}, users: {} };
+    const spend = entries[day];
+    spend.channels[channelId] = (spend.channels[channelId] || 0) + costUsd;
+    spend.users[userId] = (spend.users[userId] || 0) + costUsd;
+    saveLedger();
+    console.log(`[Cost] Recorded $${costUsd.toFixed(4)} for channel ${channelId}, user ${userId}`);
+
+    const budget = getChannelBudget(channelId);
+    const checks: Array<[BudgetPeriod, number, number]> = [
+        ['daily', before.today, budget.dailyUsd],
+        ['monthly', before.month, budget.monthlyUsd]
+    ];
+    const alerts: BudgetAlert[] = [];
+    for (const [period, previousUsd, budgetUsd] of checks) {
+        if (budgetUsd <= 0) continue;
+        const spentUsd = previousUsd + costUsd;
+        const warnAt = budgetUsd * config.budgetWarningPercent / 100;
+        if (previousUsd < budgetUsd && spentUsd >= budgetUsd) {
+            alerts.push({ period, spentUsd, budgetUsd, exceeded: true });
+        } else if (previousUsd < warnAt && spentUsd >= warnAt) {
+            alerts.push({ period, spentUsd, budgetUsd, exceeded: false });
+        }
+    }
+    return alerts;
+}
@@ -0,0 +1,244 @@
+/**
+ * Diff Preview
+ *
+ * Builds unified diffs for file-changing tool inputs (Edit, MultiEdit,
+ * Write, NotebookEdit) so approvals show what will actually change.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface DiffPreview {
+    filePath: string;
+    diff: string;
+    added: number;
+    removed: number;
+    isNewFile: boolean;
+}
+
+// Lines of context around each change
+const CONTEXT_LINES = 3;
+
+// Largest (old x new) line matrix we diff exactly; beyond that the block is replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+// Don't read files larger than this for previews
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string; oldNo: number; newNo: number };
+
+/**
+ * Split text into lines (a trailing newline doesn't add an empty line)
+ */
+function splitLines(text: string): string[] {
+    if (text === '') return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+/**
+ * Compute line operations between two texts
+ * Common prefix/suffix are trimmed before an LCS on the middle.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const ops: DiffOp[] = [];
+    for (let i = 0; i < start; i++) {
+        ops.push({ type: ' ', line: oldLines[i], oldNo: i + 1, newNo: i + 1 });
+    }
+
+    const a = oldLines.slice(start, oldEnd);
+    const b = newLines.slice(start, newEnd);
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        a.forEach((line, i) => ops.push({ type: '-', line, oldNo: start + i + 1, newNo: start + 1 }));
+        b.forEach((line, j) => ops.push({ type: '+', line, oldNo: start + a.length + 1, newNo: start + j + 1 }));
+    } else {
+        // lcs[i][j] = LCS length of a[i..] and b[j..]
+        const lcs: Uint32Array[] = [];
+        for (let i = 0; i <= a.length; i++) lcs.push(new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                ops.push({ type: ' ', line: a[i], oldNo: start + i + 1, newNo: start + j + 1 });
+                i++;
+                j++;
+            } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                ops.push({ type: '-', line: a[i], oldNo: start + i + 1, newNo: start + j + 1 });
+                i++;
+            } else {
+                ops.push({ type: '+', line: b[j], oldNo: start + i + 1, newNo: start + j + 1 });
+                j++;
+            }
+        }
+    }
+
+    const shift = newEnd - oldEnd;
+    for (let i = oldEnd; i < oldLines.length; i++) {
+        ops.push({ type: ' ', line: oldLines[i], oldNo: i + 1, newNo: i + 1 + shift });
+    }
+    return ops;
+}
+
+/**
+ * Build a unified diff between two texts
+ */
+export function unifiedDiff(
+    oldText: string,
+    newText: string,
+    filePath: string,
+    isNewFile: boolean = false
+): DiffPreview {
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    const added = ops.filter(op => op.type === '+').length;
+    const removed = ops.filter(op => op.type === '-').length;
+
+    // Group changes into hunks with surrounding context
+    const hunks: string[] = [];
+    let idx = 0;
+    while (idx < ops.length) {
+        if (ops[idx].type === ' ') {
+            idx++;
+            continue;
+        }
+
+        const hunkStart = Math.max(0, idx - CONTEXT_LINES);
+        let hunkEnd = idx;
+        let lastChange = idx;
+        while (hunkEnd < ops.length && hunkEnd - lastChange <= CONTEXT_LINES * 2) {
+            if (ops[hunkEnd].type !== ' ') lastChange = hunkEnd;
+            hunkEnd++;
+        }
+        hunkEnd = Math.min(ops.length, lastChange + CONTEXT_LINES + 1);
+
+        const slice = ops.slice(hunkStart, hunkEnd);
+        const oldCount = slice.filter(op => op.type !== '+').length;
+        const newCount = slice.filter(op => op.type !== '-').length;
+        const oldStart = oldCount > 0 ? slice.find(op => op.type !== '+')!.oldNo : slice[0].oldNo - 1;
+        const newStart = newCount > 0 ? slice.find(op => op.type !== '-')!.newNo : slice[0].newNo - 1;
+
+        hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        for (const op of slice) {
+            hunks.push(`${op.type}${op.line}`);
+        }
+        idx = hunkEnd;
+    }
+
+    const header = `--- ${isNewFile ? '/dev/null' : `a/${filePath}`}\n+++ b/${filePath}`;
+    return {
+        filePath,
+        diff: hunks.length > 0 ? `${header}\n${hunks.join('\n')}` : `${header}\n(no changes)`,
+        added,
+        removed,
+        isNewFile
+    };
+}
+
+/**
+ * Read a file for preview (null if missing, unreadable or too large)
+ */
+function readFileForPreview(absolutePath: string): string | null {
+    try {
+        const stats = fs.statSync(absolutePath);
+        if (!stats.isFile() || stats.size > MAX_FILE_BYTES) return null;
+        return fs.readFileSync(absolutePath, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Apply an Edit-style replacement (null if old_string isn't found)
+ */
+function applyEdit(content: string, edit: { old_string?: string; new_string?: string; replace_all?: boolean }): string | null {
+    const oldString = edit.old_string ?? '';
+    const newString = edit.new_string ?? '';
+    if (oldString === '') return content + newString;
+    if (!content.includes(oldString)) return null;
+    return edit.replace_all
+        ? content.split(oldString).join(newString)
+        : content.replace(oldString, () => newString);
+}
+
+/**
+ * Get the source of a notebook cell as a string
+ */
+function cellSource(cell: any): string {
+    if (!cell) return '';
+    return Array.isArray(cell.source) ? cell.source.join('') : (cell.source || '');
+}
+
+/**
+ * Build a diff preview for a file-changing tool input
+ * Returns null for tools that don't change files.
+ */
+export function buildDiffPreview(toolName: string, input: any, cwd: string): DiffPreview | null {
+    if (!input || typeof input !== 'object') return null;
+
+    const rawPath: string | undefined = input.file_path || input.notebook_path || input.path;
+    if (!rawPath) return null;
+
+    const absolutePath = path.resolve(cwd, rawPath);
+    const relative = path.relative(cwd, absolutePath);
+    const displayPath = relative && !relative.startsWith('..') ? relative : absolutePath;
+    const current = readFileForPreview(absolutePath);
+
+    switch (toolName) {
+        case 'Write': {
+            if (typeof input.content !== 'string') return null;
+            return unifiedDiff(current ?? '', input.content, displayPath, current === null);
+        }
+        case 'Edit':
+        case 'MultiEdit': {
+            const edits: any[] = toolName === 'Edit' ? [input] : (input.edits || []);
+            if (current !== null) {
+                let updated: string | null = current;
+                for (const edit of edits) {
+                    updated = updated === null ? null : applyEdit(updated, edit);
+                }
+                if (updated !== null) return unifiedDiff(current, updated, displayPath);
+            }
+            // File missing or edit doesn't apply - show the replacement strings alone
+            const before = edits.map(edit => edit.old_string ?? '').join('\n...\n');
+            const after = edits.map(edit => edit.new_string ?? '').join('\n...\n');
+            return unifiedDiff(before, after, displayPath);
+        }
+        case 'NotebookEdit': {
+            let cells: any[] = [];
+            try {
+                cells = current ? JSON.parse(current).cells || [] : [];
+            } catch {
+                cells = [];
+            }
+            const cell = cells.find(c => c.id === input.cell_id);
+            const label = `${displayPath}#${input.cell_id || 'new-cell'}`;
+            if (input.edit_mode === 'insert') {
+                return unifiedDiff('', input.new_source || '', label, true);
+            }
+            if (input.edit_mode === 'delete') {
+                return unifiedDiff(cellSource(cell), '', label);
+            }
+            return unifiedDiff(cellSource(cell), input.new_source || '', label, !cell);
+        }
+        default:
+            return null;
+    }
+}
@@ -15,7 +15,32 @@ import * as os from 'os';
 import * as https from 'https';
 import * as http from 'http';
 import { config } from './config';
-import { sendMessage, interruptSession, closeSession, clearSession, getSessionInfo, getUserPermissionMode, setUserPermissionMode, getTokenUsage, updateTokenUsage, PermissionMode } from './sdkSession';
+import { initSessionStore, pruneThreadStates, getStoredState, updateStoredState } from './sessionStore';
+import {
+    evaluatePolicy,
+    loadGlobalPolicy,
+    getGlobalRules,
+    getChannelRules,
+    addChannelRule,
+    removeChannelRule,
+    describeRule,
+    parseRule,
+    getGrants,
+    addGrant,
+    revokeGrant,
+    revokeToolGrants,
+    describeGrant,
+    getInputPath,
+    PolicyDecision
+} from './permissionPolicy';
+import { appendAuditEntry, readAuditEntries, summarizeInput } from './auditLog';
+import { isAuthorizedApprover, isChannelAdmin, isWorkspaceAdmin, describeApprovers } from './approverAuth';
+import { getChannelSystemPrompt, setChannelSystemPrompt, openSystemPromptModal, MAX_SYSTEM_PROMPT_LENGTH } from './systemPrompt';
+import { createUsageRecord, appendUsageRecord, readUsageRecords, summarizeUsage, uploadUsageExport, getPeriodStart, UsagePeriod } from './usageLog';
+import { getRunCost, recordCost, getChannelBudget, getChannelSpend, getUserSpend, getExceededBudget, hasBudgetOverride } from './costTracker';
+import { getToolResultText, storeToolOutput, uploadToolOutput } from './toolResults';
+import { scheduleUpdate, flushUpdates, schedulePost, getSchedulerClient, getSchedulerStats } from './slackScheduler';
+import { sendMessage, interruptSession, closeSession, clearSession, clearChannelSessions, getSessionInfo, getUserPermissionMode, setUserPermissionMode, getTokenUsage, updateTokenUsage, getContextUsage, getContextPercent, cancelQueuedMessage, clearQueue, PermissionMode, BRIDGE_TOOLS, MODEL_ALIASES, isSameModel } from './sdkSession';
 import {
     requestApproval,
     handleApprovalAction,
@@ -26,12 +51,36 @@ import {
     handleQuestionAnswer,
     updateQuestionMessage,
     getPendingQuestion,
-    openFeedbackModal
+    parseQuestionOptionValue,
+    answerQuestionWithOptions,
+    openQuestionOtherModal,
+    requestQuestionForm,
+    openQuestionFormModal,
+    readQuestionFormAnswers,
+    handleQuestionFormAnswers,
+    updateQuestionFormMessage,
+    getPendingQuestionForm,
+    openFeedbackModal,
+    openEditInputModal,
+    applyInputEdits
 } from './toolApproval';
 import {
     formatAssistantMessage,
+    splitMessageChunks,
     formatThinking,
+    formatQueued,
+    describeToolUse,
+    formatProgressCard,
+    formatProgressSummary,
+    formatResultFooter,
+    formatSpend,
+    formatTokenCount,
+    formatDuration,
+    ProgressState,
+    formatToolResult,
+    previewToolOutput,
     formatToolUse,
+    formatGrantList,
     formatError,
     simpleMessage
 } from './slackFormatter';
@@ -213,7 +262,10 @@ async function extractImagesFromMessage(msg: any, token: string): Promise<string
  * Get working directory for a channel
  */
 function getChannelWorkingDir(channelId: string): string {
-    return channelWorkingDirs.get(channelId) || config.defaultProjectPath || process.cwd();
+    return channelWorkingDirs.get(channelId)
+        || getStoredState(channelId)?.workingDir
+        || config.defaultProjectPath
+        || process.cwd();
 }
 
 /**
@@ -221,9 +273,95 @@ function getChannelWorkingDir(channelId: string): string {
  */
 function setChannelWorkingDir(channelId: string, dirPath: string): void {
     channelWorkingDirs.set(channelId, dirPath);
+    updateStoredState(channelId, { workingDir: dirPath });
     console.log(`[WorkDir] Channel ${channelId} -> ${dirPath}`);
 }
 
+type DisplayMode = 'full' | 'compact';
+
+/**
+ * Get display mode for a channel
+ */
+function getChannelDisplayMode(channelId: string): DisplayMode {
+    return (getStoredState(channelId)?.displayMode as DisplayMode) || config.displayMode;
+}
+
+/**
+ * Set display mode for a channel
+ */
+function setChannelDisplayMode(channelId: string, mode: DisplayMode): void {
+    updateStoredState(channelId, { displayMode: mode });
+    console.log(`[Display] Channel ${channelId} -> ${mode}`);
+}
+
+/**
+ * Check whether tool results are shown in a channel
+ */
+function getChannelShowsToolResults(channelId: string): boolean {
+    return getStoredState(channelId)?.showToolResults ?? config.showToolResults;
+}
+
+/**
+ * Get the model for a channel ('' = CLI default)
+ */
+function getChannelModel(channelId: string): string {
+    return getStoredState(channelId)?.model || config.model;
+}
+
+/**
+ * Check whether a model (alias or full name) is in ALLOWED_MODELS
+ * An allowed alias also allows full names of that family (e.g. sonnet -> claude-sonnet-4-5).
+ */
+function isModelAllowed(model: string): boolean {
+    if (config.allowedModels.length === 0) return true;
+    return config.allowedModels.some(allowed =>
+        allowed === model || (MODEL_ALIASES.includes(allowed) && model.startsWith(`claude-${allowed}-`))
+    );
+}
+
+/**
+ * Get run limits for a channel (0 = no limit)
+ */
+function getChannelLimits(channelId: string): { maxTurns: number; maxThinkingTokens: number } {
+    const stored = getStoredState(channelId);
+    return {
+        maxTurns: stored?.maxTurns ?? config.maxTurns,
+        maxThinkingTokens: stored?.maxThinkingTokens ?? config.maxThinkingTokens
+    };
+}
+
+/**
+ * Get the allowed and disallowed tools for a channel (channel lists override the defaults)
+ */
+function getChannelTools(channelId: string): { allowedTools: string[]; disallowedTools: string[] } {
+    const stored = getStoredState(channelId);
+    return {
+        allowedTools: stored?.allowedTools || config.allowedTools,
+        disallowedTools: stored?.disallowedTools || config.disallowedTools
+    };
+}
+
+/**
+ * Describe a channel's model and limits for status/model/limits replies
+ */
+function describeChannelModel(channelId: string): string {
+    const model = getChannelModel(channelId);
+    const limits = getChannelLimits(channelId);
+    // Runs skip the fallback when it is the channel's model itself
+    const fallback = config.fallbackModel && !(model && isSameModel(config.fallbackModel, model)) ? config.fallbackModel : '';
+    return `Model: \`${model || 'default'}\`${fallback ? ` (fallback: \`${fallback}\`)` : ''}\n` +
+        `Limits: ${limits.maxTurns ? `${limits.maxTurns} turns` : 'no turn limit'}, ` +
+        `${limits.maxThinkingTokens ? `${formatTokenCount(limits.maxThinkingTokens)} thinking tokens` : 'default thinking budget'}`;
+}
+
+/**
+ * Get the session key for a channel or thread
+ * In thread scope each thread is its own session: `${channelId}:${threadTs}`
+ */
+function getSessionKey(channelId: string, threadTs?: string): string {
+    return config.sessionScope === 'thread' && threadTs ? `${channelId}:${threadTs}` : channelId;
+}
+
 /**
  * Clean text from Slack formatting
  */
@@ -253,106 +391,193 @@ function cleanSlackText(text: string): string {
     return cleaned;
 }
 
-// Slack message limits
-const SLACK_TEXT_LIMIT = 3000;  // Block text limit
+// How often idle thread sessions are pruned from the session store
+const THREAD_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// How often the progress card's elapsed time is refreshed
+const PROGRESS_REFRESH_MS = 5000;
+
+// Progress cards whose Stop button was pressed (card ts -> user who stopped the run)
+const stoppedRuns = new Map<string, string>();
+
+// Sessions already warned that their context window is filling up
+const contextWarnings = new Set<string>();
 
 /**
- * Update or create Slack message
- * - During streaming: update the same message
- * - New query: always create new message
- * - If content is too long: upload as file
+ * Messages showing one streamed response
+ * Long responses span several consecutive messages (chunks).
  */
-async function updateSlackMessage(
+interface StreamedResponse {
+    messageTs: string[];     // One message per chunk, in order
+    chunks: string[];        // Text last written to each message
+    overflow: boolean;       // Too long for messages - uploaded as a file when done
+    anchorTs?: string;       // Compact mode: existing message the first chunk is written into
+    footer: any[];           // Extra blocks under the first chunk (compact mode tool count)
+    writtenFooter: string;   // Footer last written, to skip unchanged updates
+}
+
+/**
+ * Create empty streaming state for a new response
+ * With an anchor message the response streams into it instead of a new message.
+ */
+function createStreamedResponse(anchorTs?: string): StreamedResponse {
+    return { messageTs: anchorTs ? [anchorTs] : [], chunks: [], overflow: false, anchorTs, footer: [], writtenFooter: '' };
+}
+
+/**
+ * Check whether a response is too long for messages and should become a file
+ * File mode uploads anything that needs more than one message.
+ */
+function isResponseTooLong(content: string, chunks: string[]): boolean {
+    return config.longResponseMode === 'chunk' ? content.length > config.maxChunkedResponseChars : chunks.length > 1;
+}
+
+/**
+ * Post or update one chunk message
+ */
+async function writeChunk(
     client: any,
     channelId: string,
-    messageTs: string | null,
-    content: string
+    messageTs: string | undefined,
+    chunk: string,
+    threadTs?: string,
+    footer: any[] = []
 ): Promise<string> {
-    // If content is too long, upload as file instead
-    if (content.length > SLACK_TEXT_LIMIT) {
-        // Delete existing message if any
-        if (messageTs) {
-            try {
-                await client.chat.delete({ channel: channelId, ts: messageTs });
-            } catch (e) {
-                // Ignore deletion errors
-            }
+    const blocks = [...formatAssistantMessage(chunk), ...footer];
+    if (messageTs) {
+        try {
+            await client.chat.update({
+                channel: channelId,
+                ts: messageTs,
+                text: chunk,
+                blocks
+            });
+            return messageTs;
+        } catch (err: any) {
+            // If the message is gone, post it again below
+            if (err.data?.error !== 'message_not_found') throw err;
+        }
+    }
+
+    const result = await client.chat.postMessage({
+        channel: channelId,
+        thread_ts: threadTs,
+        text: chunk,
+        blocks
+    });
+    return result.ts as string;
+}
+
+/**
+ * Update or create the Slack messages for a streamed response
+ * - During streaming: update the last chunk, posting new chunks as the text grows
+ * - Chunks split at paragraph/code-fence boundaries (see splitMessageChunks)
+ * - Above the file threshold: stop streaming; finishSlackMessage uploads a file
+ * - Thread scope: new messages are posted into the thread
+ */
+async function updateSlackMessage(
+    client: any,
+    channelId: string,
+    response: StreamedResponse,
+    content: string,
+    threadTs?: string
+): Promise<void> {
+    if (response.overflow) return;
+
+    const chunks = splitMessageChunks(content);
+    if (isResponseTooLong(content, chunks)) {
+        response.overflow = true;
+        const lastIdx = response.messageTs.length - 1;
+        const notice = '\n\n_(Response is long - the full text will be uploaded as a file when done)_';
+        if (lastIdx >= 0 && response.chunks[lastIdx]) {
+            response.chunks[lastIdx] += notice;
+            await writeChunk(client, channelId, response.messageTs[lastIdx], response.chunks[lastIdx], threadTs,
+                lastIdx === 0 ? response.footer : []);
+        } else {
+            // Nothing shown yet - post the notice (or write it into the anchor)
+            const chunk = notice.trim();
+            response.messageTs = [await writeChunk(client, channelId, response.messageTs[0], chunk, threadTs, response.footer)];
+            response.chunks = [chunk];
         }
+        return;
+    }
 
-        // Upload full content as file
+    const footer = JSON.stringify(response.footer);
+    for (let i = 0; i < chunks.length; i++) {
+        if (response.chunks[i] === chunks[i] && (i > 0 || response.writtenFooter === footer)) continue;
+        response.messageTs[i] = await writeChunk(client, channelId, response.messageTs[i], chunks[i], threadTs,
+            i === 0 ? response.footer : []);
+        response.chunks[i] = chunks[i];
+        if (i === 0) response.writtenFooter = footer;
+    }
+
+    // Boundaries can shift as text streams in; drop chunks that are no longer needed
+    while (response.messageTs.length > chunks.length) {
+        const staleTs = response.messageTs.pop()!;
+        response.chunks.pop();
         try {
-            await client.files.uploadV2({
-                channel_id: channelId,
-                content: content,
-                filename: 'response.md',
-                title: 'Claude Response'
-            });
-        } catch (fileErr: any) {
-            console.error('[Slack] Failed to upload file:', fileErr.message);
+            await client.chat.delete({ channel: channelId, ts: staleTs });
+        } catch (e) {
+            // Ignore deletion errors
         }
+    }
+}
 
-        // Post a short summary message
-        const summary = content.slice(0, 500) + '...\n\n_(Full response uploaded as file)_';
-        const result = await client.chat.postMessage({
-            channel: channelId,
-            text: summary,
-            blocks: formatAssistantMessage(summary)
-        });
-        return result.ts as string;
+/**
+ * Finish a streamed response: upload it as a file if it outgrew messages
+ */
+async function finishSlackMessage(
+    client: any,
+    channelId: string,
+    response: StreamedResponse,
+    content: string,
+    threadTs?: string
+): Promise<void> {
+    if (!response.overflow) return;
+
+    // Replace the streamed messages with a file and a short summary (kept in the anchor, if any)
+    for (const messageTs of response.messageTs) {
+        if (messageTs === response.anchorTs) continue;
+        try {
+            await client.chat.delete({ channel: channelId, ts: messageTs });
+        } catch (e) {
+            // Ignore deletion errors
+        }
     }
 
-    // If no existing message, create new one
-    if (!messageTs) {
-        const result = await client.chat.postMessage({
-            channel: channelId,
-            text: content,
-            blocks: formatAssistantMessage(content)
+    try {
+        await client.files.uploadV2({
+            channel_id: channelId,
+            thread_ts: threadTs,
+            content: content,
+            filename: 'response.md',
+            title: 'Claude Response'
         });
-        return result.ts as string;
+    } catch (fileErr: any) {
+        console.error('[Slack] Failed to upload file:', fileErr.message);
     }
 
-    // Update existing message (during streaming)
+    const summary = content.slice(0, 500) + '...\n\n_(Full response uploaded as file)_';
+    response.messageTs = [await writeChunk(client, channelId, response.anchorTs, summary, threadTs, response.footer)];
+    response.chunks = [summary];
+}
+
+/**
+ * Post a context note about a policy decision
+ */
+async function postPolicyNote(client: any, channelId: string, threadTs: string | undefined, text: string): Promise<void> {
     try {
-        await client.chat.update({
+        await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
             channel: channelId,
-            ts: messageTs,
-            text: content,
-            blocks: formatAssistantMessage(content)
-        });
-        return messageTs;
+            thread_ts: threadTs,
+            text,
+            blocks: [{
+                type: "context",
+                elements: [{ type: "mrkdwn", text }]
+            }]
+        }));
     } catch (err: any) {
-        // If update fails due to msg_too_long, upload as file
-        if (err.data?.error === 'msg_too_long') {
-            try {
-                await client.files.uploadV2({
-                    channel_id: channelId,
-                    content: content,
-                    filename: 'response.md',
-                    title: 'Claude Response'
-                });
-                // Update message to indicate file was uploaded
-                const summary = content.slice(0, 500) + '...\n\n_(Full response uploaded as file)_';
-                await client.chat.update({
-                    channel: channelId,
-                    ts: messageTs,
-                    text: summary,
-                    blocks: formatAssistantMessage(summary)
-                });
-            } catch (fileErr: any) {
-                console.error('[Slack] Failed to upload file:', fileErr.message);
-            }
-            return messageTs;
-        }
-        // If update fails due to message_not_found, create new message
-        if (err.data?.error === 'message_not_found') {
-            const result = await client.chat.postMessage({
-                channel: channelId,
-                text: content,
-                blocks: formatAssistantMessage(content)
-            });
-            return result.ts as string;
-        }
-        throw err;
+        console.error('[Policy] Failed to post policy note:', err.message);
     }
 }
 
@@ -372,6 +597,10 @@ app.message(async ({ message, client }) => {
     const channelId = msg.channel;
     const userId = msg.user;
 
+    // Commands act on the thread's session when run inside a thread
+    const threadTs: string | undefined = msg.thread_ts;
+    const sessionKey = getSessionKey(channelId, threadTs);
+
     // Extract images from message
     const imagePaths = await extractImagesFromMessage(msg, process.env.SLACK_BOT_TOKEN || '');
 
@@ -400,13 +629,31 @@ app.message(async ({ message, client }) => {
     if (text === 'help') {
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage(
                 `*Available Commands*\n\n` +
                 `• \`cd [path]\` - Show/change working directory\n` +
                 `• \`status\` - Show session status\n` +
-                `• \`usage\` - Show token usage\n` +
+                `• \`usage\` - Show token usage and spend against budget\n` +
+                `• \`usage today|week|month\` - Usage history for this channel\n` +
+                `• \`usage by-user [period] [all]\` - Usage by user (\`all\`: every channel, workspace admins)\n` +
+                `• \`usage by-channel [period]\` - Usage across channels (workspace admins)\n` +
+                `• \`usage export [csv|json] [period] [all]\` - Upload usage records\n` +
+                `• \`budget\` - Show/set channel budgets (admins)\n` +
                 `• \`mode [mode]\` - Show/change permission mode\n` +
-                `• \`abort\` - Interrupt current operation\n` +
+                `• \`model [name]\` - Show/change the model (opus, sonnet, haiku, ...; admins)\n` +
+                `• \`limits [turns|thinking <n>]\` - Show/change run limits (admins)\n` +
+                `• \`system [show|set|append|reset]\` - Show/edit channel instructions for Claude (admins)\n` +
+                `• \`tools\` - Show/edit the tools Claude may use here (admins)\n` +
+                `• \`display [full|compact]\` - Show/change how tool activity is shown\n` +
+                `• \`results [on|off]\` - Show/hide tool results (command output, errors)\n` +
+                `• \`policy\` - Show/edit tool permission rules\n` +
+                `• \`grants\` - List Always Allow grants\n` +
+                `• \`revoke <tool|all>\` - Revoke Always Allow grants\n` +
+                `• \`audit [n] [tool]\` - Show recent approval decisions\n` +
+                `• \`compact [focus]\` - Summarize the conversation to free up context\n` +
+                `• \`abort\` - Interrupt current operation (and clear the queue)\n` +
+                `• \`steer <msg>\` / \`!now <msg>\` - Interrupt and redirect right away\n` +
                 `• \`exit\` - Terminate session\n` +
                 `• \`clear\` - Clear message tracking\n` +
                 `• \`cleanup\` - Clean up temporary images\n` +
@@ -430,6 +677,7 @@ app.message(async ({ message, client }) => {
             const cwd = getChannelWorkingDir(channelId);
             await client.chat.postMessage({
                 channel: channelId,
+                thread_ts: threadTs,
                 ...simpleMessage(`📂 Current working directory: \`${cwd}\``)
             });
             return;
@@ -445,17 +693,23 @@ app.message(async ({ message, client }) => {
         if (!fs.existsSync(targetPath)) {
             await client.chat.postMessage({
                 channel: channelId,
+                thread_ts: threadTs,
                 ...simpleMessage(`❌ Directory not found: \`${targetPath}\``)
             });
             return;
         }
 
-        // Clear existing session and set new path for this channel
-        clearSession(channelId);
+        // The CLI keeps sessions per directory, so every session in the channel (threads too) starts over
+        for (const key of clearChannelSessions(channelId)) {
+            activeMessages.delete(key);
+            contextWarnings.delete(key);
+        }
+        cancelUserApprovals(channelId);
         setChannelWorkingDir(channelId, targetPath);
 
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage(`📂 Working directory changed to: \`${targetPath}\``)
         });
         return;
@@ -463,13 +717,15 @@ app.message(async ({ message, client }) => {
 
     // exit - Terminate session (full close)
     if (text === 'exit') {
-        closeSession(channelId);
-        clearSession(channelId);
-        activeMessages.delete(channelId);
-        cancelUserApprovals(channelId);
+        closeSession(sessionKey);
+        clearSession(sessionKey);
+        activeMessages.delete(sessionKey);
+        contextWarnings.delete(sessionKey);
+        cancelUserApprovals(channelId, sessionKey === channelId ? undefined : threadTs);
 
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage('🛑 Session terminated.')
         });
         return;
@@ -477,19 +733,22 @@ app.message(async ({ message, client }) => {
 
     // abort - Interrupt current operation (immediate stop)
     if (text === 'abort') {
-        const interrupted = interruptSession(channelId);
-        cancelUserApprovals(channelId);
+        const cancelled = clearQueue(sessionKey);
+        const interrupted = interruptSession(sessionKey);
+        cancelUserApprovals(channelId, sessionKey === channelId ? undefined : threadTs);
 
+        const queueNote = cancelled > 0 ? ` ${cancelled} queued message(s) cancelled.` : '';
         await client.chat.postMessage({
             channel: channelId,
-            ...simpleMessage(interrupted ? '⚠️ Operation interrupted.' : '⚠️ No active operation to interrupt.')
+            thread_ts: threadTs,
+            ...simpleMessage((interrupted ? '⚠️ Operation interrupted.' : '⚠️ No active operation to interrupt.') + queueNote)
         });
         return;
     }
 
     // status - Show session status
     if (text === 'status') {
-        const info = getSessionInfo(channelId);
+        const info = getSessionInfo(sessionKey);
         const cwd = getChannelWorkingDir(channelId);
         const currentMode = getUserPermissionMode(channelId);
         const modeLabels: Record<PermissionMode, string> = {
@@ -498,48 +757,230 @@ app.message(async ({ message, client }) => {
             'bypassPermissions': '⚡ bypassPermissions'
         };
 
-        const statusText = info
-            ? `📊 *Session Status*\nSession ID: \`${info.sessionId || 'none'}\`\nActive: ${info.isActive ? 'Yes' : 'No'}\nWorking dir: \`${cwd}\`\nMode: ${modeLabels[currentMode]}`
-            : `📊 No active session\nWorking dir: \`${cwd}\`\nMode: ${modeLabels[currentMode]}`;
+        const slackStats = getSchedulerStats();
+        const statsLine = `\nSlack updates: ${slackStats.posted} posted, ${slackStats.updated} updated, ${slackStats.merged} merged, ${slackStats.dropped} dropped, ${slackStats.rateLimited} rate limited`;
+
+        const context = getContextUsage(sessionKey);
+        const contextPercent = getContextPercent(sessionKey);
+        let contextLine = '';
+        if (context?.compactedFrom) {
+            contextLine = `\nContext: compacted (was ${formatTokenCount(context.compactedFrom)} tokens)`;
+        } else if (contextPercent !== null && context) {
+            contextLine = `\nContext: ${contextPercent >= config.contextWarningPercent ? '⚠️ ' : ''}${contextPercent}% ` +
+                `(${formatTokenCount(context.usedTokens)} / ${formatTokenCount(context.contextWindow)} tokens)`;
+        } else if (context?.usedTokens) {
+            contextLine = `\nContext: ${formatTokenCount(context.usedTokens)} tokens`;
+        }
+
+        const statusText = (info
+            ? `📊 *Session Status*\nSession ID: \`${info.sessionId || 'none'}\`\nActive: ${info.isActive ? 'Yes' : 'No'}${info.queued > 0 ? ` (${info.queued} queued)` : ''}\nWorking dir: \`${cwd}\`\nMode: ${modeLabels[currentMode]}\n${describeChannelModel(channelId)}${contextLine}`
+            : `📊 No active session\nWorking dir: \`${cwd}\`\nMode: ${modeLabels[currentMode]}\n${describeChannelModel(channelId)}`) + statsLine;
 
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage(statusText)
         });
         return;
     }
 
-    // usage - Show token usage
+    // usage - Show token usage and spend against budget
     if (text === 'usage') {
-        console.log(`[Usage] Checking token usage for channel: ${channelId}`);
-        const tokenUsage = getTokenUsage(channelId);
+        console.log(`[Usage] Checking token usage for session: ${sessionKey}`);
+        const tokenUsage = getTokenUsage(sessionKey);
         console.log(`[Usage] Token usage result:`, tokenUsage);
 
+        let usageText: string;
         if (!tokenUsage || (tokenUsage.inputTokens === 0 && tokenUsage.outputTokens === 0)) {
+            usageText = '📈 No token usage recorded yet.';
+        } else {
+            const totalTokens = tokenUsage.inputTokens + tokenUsage.outputTokens;
+            const cacheTokens = tokenUsage.cacheReadTokens + tokenUsage.cacheWriteTokens;
+
+            usageText = `📈 *Token Usage (This Session)*\n\n` +
+                `• Input: \`${tokenUsage.inputTokens.toLocaleString()}\` tokens\n` +
+                `• Output: \`${tokenUsage.outputTokens.toLocaleString()}\` tokens\n` +
+                `• *Total: \`${totalTokens.toLocaleString()}\` tokens*\n` +
+                `• Cost: \`$${tokenUsage.costUsd.toFixed(4)}\``;
+
+            if (cacheTokens > 0) {
+                usageText += `\n\n*Cache:*\n` +
+                    `• Read: \`${tokenUsage.cacheReadTokens.toLocaleString()}\` tokens\n` +
+                    `• Write: \`${tokenUsage.cacheWriteTokens.toLocaleString()}\` tokens`;
+            }
+        }
+
+        const budget = getChannelBudget(channelId);
+        const channelSpend = getChannelSpend(channelId);
+        const userSpend = getUserSpend(userId);
+        usageText += `\n\n💰 *Spend*\n` +
+            `• Channel today: ${formatSpend(channelSpend.today, budget.dailyUsd)}\n` +
+            `• Channel this month: ${formatSpend(channelSpend.month, budget.monthlyUsd)}\n` +
+            `• You today: ${formatSpend(userSpend.today, 0)}`;
+        if (hasBudgetOverride(channelId)) {
+            usageText += `\n\n🔓 Budget override active until the end of today (by <@${getStoredState(channelId)?.budgetOverrideBy}>)`;
+        }
+
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(usageText)
+        });
+        return;
+    }
+
+    // usage <period> / by-user / by-channel / export - Usage history across sessions
+    if (text.startsWith('usage ')) {
+        const args = text.replace(/^usage\s*/, '').trim().toLowerCase().split(/\s+/);
+        const period = (args.find(arg => ['today', 'week', 'month'].includes(arg)) || 'month') as UsagePeriod;
+        const periodLabel = period === 'today' ? 'today' : `this ${period}`;
+        const since = getPeriodStart(period);
+        const unknown = args.filter(arg => !['today', 'week', 'month', 'by-user', 'by-channel', 'export', 'csv', 'json', 'all'].includes(arg));
+
+        if (unknown.length > 0) {
             await client.chat.postMessage({
                 channel: channelId,
-                ...simpleMessage('📈 No token usage recorded yet.')
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `❌ Unknown usage option: \`${unknown[0]}\`\n\n` +
+                    `Use: \`usage today|week|month\`, \`usage by-user [period] [all]\`, \`usage by-channel [period]\` or \`usage export [csv|json] [period] [all]\``
+                )
+            });
+            return;
+        }
+
+        // Other channels' usage is only shown to workspace admins
+        const allChannels = args.includes('all') || args.includes('by-channel');
+        if (allChannels && !await isWorkspaceAdmin(client, userId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only workspace admins can see usage across channels. Drop `all` / `by-channel` for this channel.')
             });
             return;
         }
 
-        const totalTokens = tokenUsage.inputTokens + tokenUsage.outputTokens;
-        const cacheTokens = tokenUsage.cacheReadTokens + tokenUsage.cacheWriteTokens;
+        if (args.includes('export')) {
+            const format = args.includes('json') ? 'json' : 'csv';
+            const records = readUsageRecords(since, allChannels ? undefined : channelId);
+            const uploaded = await uploadUsageExport(
+                client,
+                records,
+                format,
+                `usage-${allChannels ? 'all' : channelId}-${period}-${since.toISOString().slice(0, 10)}.${format}`,
+                channelId,
+                threadTs
+            );
+            if (!uploaded) {
+                await client.chat.postMessage({
+                    channel: channelId,
+                    thread_ts: threadTs,
+                    ...simpleMessage('❌ Failed to upload the usage export.')
+                });
+            }
+            return;
+        }
 
-        let usageText = `📈 *Token Usage (This Session)*\n\n` +
-            `• Input: \`${tokenUsage.inputTokens.toLocaleString()}\` tokens\n` +
-            `• Output: \`${tokenUsage.outputTokens.toLocaleString()}\` tokens\n` +
-            `• *Total: \`${totalTokens.toLocaleString()}\` tokens*`;
+        const groupBy = args.includes('by-channel') ? 'channel' : 'user';
+        const records = readUsageRecords(since, allChannels ? undefined : channelId);
+        const [total] = summarizeUsage(records);
+        let reportText: string;
 
-        if (cacheTokens > 0) {
-            usageText += `\n\n*Cache:*\n` +
-                `• Read: \`${tokenUsage.cacheReadTokens.toLocaleString()}\` tokens\n` +
-                `• Write: \`${tokenUsage.cacheWriteTokens.toLocaleString()}\` tokens`;
+        if (!total) {
+            reportText = `📊 No usage recorded ${periodLabel}.`;
+        } else {
+            reportText = `📊 *Usage ${periodLabel}* (${allChannels ? 'all channels' : 'this channel'})\n\n` +
+                `• Runs: \`${total.runs}\` · Tokens: \`${formatTokenCount(total.inputTokens)}\` in / \`${formatTokenCount(total.outputTokens)}\` out\n` +
+                `• Cost: \`$${total.costUsd.toFixed(2)}\` · Run time: \`${formatDuration(total.durationMs)}\`\n\n` +
+                `*By ${groupBy}:*\n` +
+                summarizeUsage(records, groupBy).map((row, idx) =>
+                    `${idx + 1}. ${groupBy === 'user' ? `<@${row.key}>` : `<#${row.key}>`} - $${row.costUsd.toFixed(2)} · ` +
+                    `${row.runs} run${row.runs === 1 ? '' : 's'} · ${formatTokenCount(row.inputTokens + row.outputTokens)} tokens`
+                ).join('\n');
         }
 
         await client.chat.postMessage({
             channel: channelId,
-            ...simpleMessage(usageText)
+            thread_ts: threadTs,
+            ...simpleMessage(reportText.length > 2900 ? reportText.slice(0, 2900) + '…' : reportText)
+        });
+        return;
+    }
+
+    // budget - Show or set channel budgets
+    if (text === 'budget' || text.startsWith('budget ')) {
+        const args = text.replace(/^budget\s*/, '').trim().toLowerCase();
+
+        if (!args) {
+            const budget = getChannelBudget(channelId);
+            const spend = getChannelSpend(channelId);
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `💰 *Channel Budget*\n\n` +
+                    `• Today: ${formatSpend(spend.today, budget.dailyUsd)}${budget.dailyUsd > 0 ? '' : ' (no daily budget)'}\n` +
+                    `• This month: ${formatSpend(spend.month, budget.monthlyUsd)}${budget.monthlyUsd > 0 ? '' : ' (no monthly budget)'}\n` +
+                    (hasBudgetOverride(channelId) ? `• 🔓 Override active until end of day\n` : '') +
+                    `\n_Admins: \`budget daily <usd>\`, \`budget monthly <usd>\`, \`budget off\`, ` +
+                    `\`budget override\` (allow prompts past the cap for the rest of today)_`
+                )
+            });
+            return;
+        }
+
+        if (!await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change budgets.')
+            });
+            return;
+        }
+
+        const setMatch = args.match(/^(daily|monthly)\s+\$?(\d+(?:\.\d+)?)$/);
+        if (setMatch) {
+            const amount = parseFloat(setMatch[2]);
+            const current = getStoredState(channelId)?.budget || {};
+            updateStoredState(channelId, {
+                budget: setMatch[1] === 'daily' ? { ...current, dailyUsd: amount } : { ...current, monthlyUsd: amount }
+            });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(amount > 0
+                    ? `💰 ${setMatch[1] === 'daily' ? 'Daily' : 'Monthly'} budget set to $${amount.toFixed(2)}`
+                    : `💰 ${setMatch[1] === 'daily' ? 'Daily' : 'Monthly'} budget turned off`)
+            });
+            return;
+        }
+
+        if (args === 'off') {
+            updateStoredState(channelId, { budget: { dailyUsd: 0, monthlyUsd: 0 } });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('💰 Budgets turned off for this channel')
+            });
+            return;
+        }
+
+        if (args === 'override') {
+            const endOfDay = new Date();
+            endOfDay.setHours(24, 0, 0, 0);
+            updateStoredState(channelId, { budgetOverrideUntil: endOfDay.getTime(), budgetOverrideBy: userId });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`🔓 <@${userId}> allowed prompts past the budget for the rest of today`)
+            });
+            return;
+        }
+
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`❌ Unknown budget command: \`${args}\`\n\nUse: \`daily <usd>\`, \`monthly <usd>\`, \`off\` or \`override\``)
         });
         return;
     }
@@ -549,6 +990,7 @@ app.message(async ({ message, client }) => {
         activeMessages.delete(userId);
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage('🧹 Message tracking cleared.')
         });
         return;
@@ -567,6 +1009,7 @@ app.message(async ({ message, client }) => {
 
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage(message)
         });
         return;
@@ -586,6 +1029,7 @@ app.message(async ({ message, client }) => {
             };
             await client.chat.postMessage({
                 channel: channelId,
+                thread_ts: threadTs,
                 ...simpleMessage(
                     `*Current Mode:* ${modeDescriptions[currentMode]}\n\n` +
                     `*Available modes:*\n` +
@@ -608,6 +1052,7 @@ app.message(async ({ message, client }) => {
         } else {
             await client.chat.postMessage({
                 channel: channelId,
+                thread_ts: threadTs,
                 ...simpleMessage(`❌ Unknown mode: \`${modeArg}\`\n\nUse: \`default\`, \`accept\`, or \`bypass\``)
             });
             return;
@@ -623,79 +1068,818 @@ app.message(async ({ message, client }) => {
 
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             ...simpleMessage(`${modeEmoji[newMode]} Permission mode changed to: \`${newMode}\``)
         });
         return;
     }
 
-    // ===== Send message to Claude =====
+    // model - Show or change the model for this channel
+    if (text === 'model' || text.startsWith('model ')) {
+        const modelArg = text.replace(/^model\s*/, '').trim().toLowerCase();
 
-    // Show thinking indicator
-    const thinkingResult = await client.chat.postMessage({
-        channel: channelId,
-        text: 'Thinking...',
-        blocks: formatThinking()
-    });
-    const thinkingTs = thinkingResult.ts as string;
+        if (!modelArg) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `🤖 *Current Model*\n${describeChannelModel(channelId)}\n\n` +
+                    `*Allowed:* ${config.allowedModels.length > 0 ? config.allowedModels.map(m => `\`${m}\``).join(', ') : 'any'}\n\n` +
+                    `Use \`model <name>\` to switch, or \`model default\` to go back to the default`
+                )
+            });
+            return;
+        }
 
-    let accumulatedContent = '';
-    let currentMessageTs: string | null = null;
-    let lastToolName: string | null = null;
+        if (!await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change the model for this channel.')
+            });
+            return;
+        }
 
-    const cwd = getChannelWorkingDir(channelId);
-    console.log(`[SDK] Sending message to channel ${channelId} with cwd: ${cwd}`);
+        if (modelArg === 'default') {
+            updateStoredState(channelId, { model: undefined });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`🤖 Model reset to: \`${config.model || 'default'}\``)
+            });
+            return;
+        }
 
-    try {
-        await sendMessage(channelId, text, {
-            cwd: cwd,
+        if (!isModelAllowed(modelArg)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `❌ Model not allowed: \`${modelArg}\`\n\n` +
+                    `Use: ${config.allowedModels.map(m => `\`${m}\``).join(', ')}`
+                )
+            });
+            return;
+        }
 
-            onMessage: async (sdkMsg) => {
-                try {
-                    // Debug: log all message types
-                    console.log(`[SDK] Message type: ${sdkMsg.type}, subtype: ${sdkMsg.subtype || 'none'}`);
+        updateStoredState(channelId, { model: modelArg });
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`🤖 Model changed to: \`${modelArg}\` (applies from the next message)`)
+        });
+        return;
+    }
 
-                    // Handle different message types
-                    if (sdkMsg.type === 'assistant' && sdkMsg.message?.content) {
-                        // Extract text content
-                        for (const block of sdkMsg.message.content) {
-                            if (block.type === 'text') {
-                                accumulatedContent += block.text;
-                            } else if (block.type === 'tool_use') {
-                                lastToolName = block.name;
-                                // Show tool use indicator
-                                await client.chat.postMessage({
-                                    channel: channelId,
-                                    text: `Using tool: ${block.name}`,
-                                    blocks: formatToolUse(block.name, block.input)
-                                });
-                            }
-                        }
+    // limits - Show or change max turns and thinking tokens for this channel
+    if (text === 'limits' || text.startsWith('limits ')) {
+        const args = text.replace(/^limits\s*/, '').trim().toLowerCase();
 
-                        // Update message if we have content
-                        if (accumulatedContent.trim()) {
-                            // Delete thinking indicator on first content
-                            if (!currentMessageTs) {
-                                try {
-                                    await client.chat.delete({
-                                        channel: channelId,
-                                        ts: thinkingTs
-                                    });
-                                } catch (e) {
-                                    // Ignore deletion errors
-                                }
-                            }
+        if (args && !await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change the run limits for this channel.')
+            });
+            return;
+        }
 
-                            currentMessageTs = await updateSlackMessage(
-                                client,
-                                channelId,
-                                currentMessageTs,  // Pass current message ts for streaming updates
-                                accumulatedContent
-                            );
-                        }
-                    } else if (sdkMsg.type === 'result') {
-                        // Final result with token usage
-                        console.log(`[SDK] Result message:`, JSON.stringify(sdkMsg, null, 2).slice(0, 500));
-                        const usage = sdkMsg.modelUsage;
+        if (args === 'reset') {
+            updateStoredState(channelId, { maxTurns: undefined, maxThinkingTokens: undefined });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`🎚️ Limits reset\n${describeChannelModel(channelId)}`)
+            });
+            return;
+        }
+
+        const limitMatch = args.match(/^(turns|thinking)\s+(\d+)$/);
+        if (!limitMatch) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    (args ? `❌ Unknown limit: \`${args}\`\n\n` : `🎚️ *Run Limits*\n${describeChannelModel(channelId)}\n\n`) +
+                    `• \`limits turns <n>\` - Stop a run after n turns (0 = no limit)\n` +
+                    `• \`limits thinking <n>\` - Thinking token budget per turn (0 = default)\n` +
+                    `• \`limits reset\` - Go back to the defaults`
+                )
+            });
+            return;
+        }
+
+        const value = parseInt(limitMatch[2]);
+        updateStoredState(channelId, limitMatch[1] === 'turns' ? { maxTurns: value } : { maxThinkingTokens: value });
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`🎚️ Limits updated\n${describeChannelModel(channelId)}`)
+        });
+        return;
+    }
+
+    // system - Show or edit custom instructions added to the system prompt
+    if (text === 'system' || text.startsWith('system ')) {
+        const systemMatch = text.match(/^system\s*(\S*)\s*([\s\S]*)$/);
+        const subcommand = (systemMatch?.[1] || 'show').toLowerCase();
+        const argText = systemMatch?.[2].trim() || '';
+        const editButton = {
+            type: "actions",
+            elements: [{
+                type: "button",
+                text: { type: "plain_text", text: "✏️ Edit instructions" },
+                action_id: 'system_prompt_edit',
+                value: `${sessionKey}|${threadTs || ''}`
+            }]
+        };
+
+        if (subcommand === 'show') {
+            const current = getChannelSystemPrompt(channelId);
+            const showText = current
+                ? `📝 *Channel Instructions*\n\n${current.slice(0, 2800)}`
+                : '📝 No custom instructions for this channel.';
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                text: showText,
+                blocks: [
+                    ...simpleMessage(showText).blocks,
+                    editButton,
+                    {
+                        type: "context",
+                        elements: [{
+                            type: "mrkdwn",
+                            text: '`system set <text>` replaces, `system append <text>` adds a line, `system reset` removes. Changes start a new session.'
+                        }]
+                    }
+                ]
+            });
+            return;
+        }
+
+        if (['set', 'append', 'reset'].includes(subcommand) && !await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change the channel instructions.')
+            });
+            return;
+        }
+
+        let updated: string;
+        if (subcommand === 'set' || subcommand === 'append') {
+            if (!argText) {
+                const usageText = `❌ Usage: \`system ${subcommand} <instructions>\``;
+                await client.chat.postMessage({
+                    channel: channelId,
+                    thread_ts: threadTs,
+                    text: usageText,
+                    blocks: [...simpleMessage(usageText).blocks, editButton]
+                });
+                return;
+            }
+            const current = getChannelSystemPrompt(channelId);
+            updated = subcommand === 'append' && current ? `${current}\n${argText}` : argText;
+        } else if (subcommand === 'reset') {
+            updated = '';
+        } else {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`❌ Unknown system command: \`${subcommand}\`\n\nUse: \`show\`, \`set\`, \`append\` or \`reset\``)
+            });
+            return;
+        }
+
+        if (!setChannelSystemPrompt(channelId, updated)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`❌ Instructions can be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters (would be ${updated.trim().length}).`)
+            });
+            return;
+        }
+
+        // Start new sessions (threads too) so the instructions apply from the first turn
+        for (const key of clearChannelSessions(channelId)) {
+            contextWarnings.delete(key);
+        }
+        cancelUserApprovals(channelId);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(updated
+                ? '📝 Channel instructions updated. Starting a new session.'
+                : '📝 Channel instructions removed. Starting a new session.')
+        });
+        return;
+    }
+
+    // tools - Show or edit the tools Claude may use in this channel
+    if (text === 'tools' || text.startsWith('tools ')) {
+        const toolsMatch = text.match(/^tools\s*(\S*)\s*([\s\S]*)$/);
+        const subcommand = (toolsMatch?.[1] || '').toLowerCase();
+        const toolNames = (toolsMatch?.[2] || '').split(/[\s,]+/).filter(Boolean);
+        const formatTools = (tools: string[]) => tools.length > 0 ? tools.map(t => `\`${t}\``).join(', ') : '_none_';
+
+        if (!subcommand || subcommand === 'show') {
+            const stored = getStoredState(channelId);
+            const tools = getChannelTools(channelId);
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `🧰 *Tools*\n\n` +
+                    `*Allowed${stored?.allowedTools ? ' (channel)' : ''}:* ${formatTools(tools.allowedTools)}\n` +
+                    `*Disallowed${stored?.disallowedTools ? ' (channel)' : ''}:* ${formatTools(tools.disallowedTools)}\n` +
+                    `*Always available:* ${formatTools(BRIDGE_TOOLS)}\n\n` +
+                    `_Admins: \`tools allow <Tool...>\`, \`tools deny <Tool...>\`, \`tools set <Tool,...>\`, \`tools reset\`_`
+                )
+            });
+            return;
+        }
+
+        if (!['allow', 'deny', 'set', 'reset'].includes(subcommand)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`❌ Unknown tools command: \`${subcommand}\`\n\nUse: \`show\`, \`allow\`, \`deny\`, \`set\` or \`reset\``)
+            });
+            return;
+        }
+
+        if (!await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change the tools for this channel.')
+            });
+            return;
+        }
+
+        if (subcommand === 'reset') {
+            updateStoredState(channelId, { allowedTools: undefined, disallowedTools: undefined });
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🧰 Tools reset to the defaults.')
+            });
+            return;
+        }
+
+        const invalid = toolNames.find(name => !/^[A-Za-z][\w-]*$/.test(name));
+        if (toolNames.length === 0 || invalid) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(invalid
+                    ? `❌ Invalid tool name: \`${invalid}\``
+                    : `❌ Usage: \`tools ${subcommand} <Tool...>\` (e.g. \`tools ${subcommand} Write Edit Bash\`)`)
+            });
+            return;
+        }
+
+        const current = getChannelTools(channelId);
+        let allowedTools = current.allowedTools;
+        let disallowedTools = current.disallowedTools;
+        if (subcommand === 'allow') {
+            allowedTools = [...new Set([...allowedTools, ...toolNames])];
+            disallowedTools = disallowedTools.filter(tool => !toolNames.includes(tool));
+        } else if (subcommand === 'deny') {
+            allowedTools = allowedTools.filter(tool => !toolNames.includes(tool));
+            disallowedTools = [...new Set([...disallowedTools, ...toolNames])];
+        } else {
+            allowedTools = [...new Set(toolNames)];
+            disallowedTools = disallowedTools.filter(tool => !toolNames.includes(tool));
+        }
+
+        updateStoredState(channelId, { allowedTools, disallowedTools });
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(
+                `🧰 Tools updated (applies from the next message)\n\n` +
+                `*Allowed:* ${formatTools(allowedTools)}\n` +
+                `*Disallowed:* ${formatTools(disallowedTools)}`
+            )
+        });
+        return;
+    }
+
+    // display - Show or change how tool activity is shown
+    if (text === 'display' || text.startsWith('display ')) {
+        const displayArg = text.replace(/^display\s*/, '').trim().toLowerCase();
+
+        if (!displayArg) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `*Current Display:* \`${getChannelDisplayMode(channelId)}\`\n\n` +
+                    `• \`display full\` - Tool lines and approvals in the channel\n` +
+                    `• \`display compact\` - One message per prompt; tool activity in a thread under it`
+                )
+            });
+            return;
+        }
+
+        if (displayArg !== 'full' && displayArg !== 'compact') {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`❌ Unknown display mode: \`${displayArg}\`\n\nUse: \`full\` or \`compact\``)
+            });
+            return;
+        }
+
+        setChannelDisplayMode(channelId, displayArg);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`🖥️ Display mode changed to: \`${displayArg}\``)
+        });
+        return;
+    }
+
+    // results - Show or hide tool results
+    if (text === 'results' || text.startsWith('results ')) {
+        const resultsArg = text.replace(/^results\s*/, '').trim().toLowerCase();
+
+        if (resultsArg !== 'on' && resultsArg !== 'off') {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `*Tool results:* ${getChannelShowsToolResults(channelId) ? 'on' : 'off'}\n\n` +
+                    `Use \`results on\` or \`results off\``
+                )
+            });
+            return;
+        }
+
+        updateStoredState(channelId, { showToolResults: resultsArg === 'on' });
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`📤 Tool results turned ${resultsArg}`)
+        });
+        return;
+    }
+
+    // policy - Show or edit permission rules
+    if (text === 'policy' || text.startsWith('policy ')) {
+        const args = text.replace(/^policy\s*/, '').trim();
+
+        if (!args) {
+            const formatRules = (rules: ReturnType<typeof getGlobalRules>) => rules.length > 0
+                ? rules.map((rule, idx) => `${idx + 1}. \`${describeRule(rule)}\``).join('\n')
+                : '_none_';
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(
+                    `📜 *Permission Policy*\n\n` +
+                    `*Channel rules:*\n${formatRules(getChannelRules(channelId))}\n\n` +
+                    `*Global rules:*\n${formatRules(getGlobalRules())}\n\n` +
+                    `*Auto-approve (fallback):* ${config.autoApproveTools.map(t => `\`${t}\``).join(', ') || '_none_'}\n\n` +
+                    `_deny beats ask beats allow; deny rules also hold in accept and bypass modes. Usage: \`policy allow Bash npm test*\`, \`policy allow Write src/**\`, ` +
+                    `\`policy deny Bash /rm\\s+-rf/\`, \`policy remove <n>\`, \`policy reload\`_`
+                )
+            });
+            return;
+        }
+
+        if (!await isChannelAdmin(client, userId, channelId)) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🚫 Only channel admins can change the permission policy.')
+            });
+            return;
+        }
+
+        if (args === 'reload') {
+            const count = loadGlobalPolicy();
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`📜 Reloaded ${count} global rule(s).`)
+            });
+            return;
+        }
+
+        const removeMatch = args.match(/^(?:remove|rm)\s+(\d+)$/);
+        if (removeMatch) {
+            const removed = removeChannelRule(channelId, parseInt(removeMatch[1]));
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(removed
+                    ? `🗑️ Removed channel rule: \`${describeRule(removed)}\``
+                    : `❌ No channel rule #${removeMatch[1]}`)
+            });
+            return;
+        }
+
+        const rule = parseRule(args);
+        if (!rule) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage(`❌ Invalid rule: \`${args}\`\n\nUse: \`policy <allow|deny|ask> <Tool> [pattern]\``)
+            });
+            return;
+        }
+
+        const index = addChannelRule(channelId, rule);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(`📜 Added channel rule #${index}: \`${describeRule(rule)}\``)
+        });
+        return;
+    }
+
+    // grants - List "Always Allow" grants for this session
+    if (text === 'grants') {
+        const grants = getGrants(sessionKey);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: `Always Allow grants: ${grants.length}`,
+            blocks: formatGrantList(grants, sessionKey)
+        });
+        return;
+    }
+
+    // revoke - Revoke "Always Allow" grants for a tool
+    if (text === 'revoke' || text.startsWith('revoke ')) {
+        const toolArg = text.replace(/^revoke\s*/, '').trim();
+        if (!toolArg) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('Usage: `revoke <tool>` or `revoke all`')
+            });
+            return;
+        }
+
+        const removed = revokeToolGrants(sessionKey, toolArg);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(removed.length > 0
+                ? `🔒 Revoked ${removed.length} grant(s):\n${removed.map(g => `• \`${describeGrant(g)}\``).join('\n')}`
+                : `No grants found for \`${toolArg}\``)
+        });
+        return;
+    }
+
+    // audit - Show recent approval decisions for this channel
+    if (text === 'audit' || text.startsWith('audit ')) {
+        const args = text.replace(/^audit\s*/, '').trim().split(/\s+/).filter(Boolean);
+        let limit = 10;
+        let toolFilter: string | undefined;
+        for (const arg of args) {
+            if (/^\d+$/.test(arg)) {
+                limit = Math.min(parseInt(arg), 50);
+            } else {
+                toolFilter = arg;
+            }
+        }
+
+        const entries = readAuditEntries(channelId, limit, toolFilter);
+        const decisionEmoji: Record<string, string> = {
+            'allow': '✅', 'deny': '❌', 'always': '🔓', 'feedback': '💬', 'edited': '✏️',
+            'timeout': '⏱️', 'cancelled': '🚫', 'auto-approved': '🤖✅', 'auto-denied': '🤖❌'
+        };
+        const auditText = entries.length > 0
+            ? `🧾 *Recent Approval Decisions*${toolFilter ? ` (\`${toolFilter}\`)` : ''}\n\n` + entries.map(entry => {
+                const by = /^[UW][A-Z0-9]+$/.test(entry.decidedBy) ? `<@${entry.decidedBy}>` : entry.decidedBy;
+                const when = `<!date^${Math.floor(Date.parse(entry.decidedAt) / 1000)}^{date_short} {time}|${entry.decidedAt}>`;
+                return `${decisionEmoji[entry.decision] || '•'} *${entry.decision}* \`${entry.toolName}\` by ${by} · ${when}\n` +
+                    `      _${entry.inputSummary.replace(/[_*~`]/g, '')}_` +
+                    (entry.rule ? `\n      📜 ${entry.rule}` : '');
+            }).join('\n')
+            : '🧾 No approval decisions recorded for this channel yet.';
+
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            ...simpleMessage(auditText.length > 2900 ? auditText.slice(0, 2900) + '…' : auditText)
+        });
+        return;
+    }
+
+    // compact - Summarize the conversation to free up context (runs the SDK's /compact)
+    if (text === 'compact' || text.startsWith('compact ')) {
+        if (!getStoredState(sessionKey)?.sessionId) {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                ...simpleMessage('🗜️ No session to compact.')
+            });
+            return;
+        }
+        // Optional focus instructions are passed through to /compact
+        text = `/compact ${text.replace(/^compact\s*/, '')}`.trim();
+    }
+
+    // ===== Send message to Claude =====
+
+    // steer / !now - interrupt the in-flight run instead of queueing behind it
+    const steerMatch = text.match(/^(?:steer|!now)\s+([\s\S]+)$/i);
+    const steer = !!steerMatch;
+    if (steerMatch) {
+        text = steerMatch[1].trim();
+    }
+
+    // In thread scope a top-level message starts a new thread (and a fresh session)
+    const replyThreadTs = config.sessionScope === 'thread' ? (threadTs || msg.ts) : threadTs;
+    const runSessionKey = getSessionKey(channelId, replyThreadTs);
+
+    // Refuse new prompts once the channel is over budget (unless an admin overrode it)
+    const exceededBudget = getExceededBudget(channelId);
+    if (exceededBudget && !hasBudgetOverride(channelId)) {
+        console.log(`[Cost] Refusing prompt in ${channelId}: ${exceededBudget.period} budget used up`);
+        if (imagePaths.length > 0) deleteImages(imagePaths);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: replyThreadTs,
+            ...simpleMessage(
+                `🛑 This channel has used its ${exceededBudget.period} budget ` +
+                `(${formatSpend(exceededBudget.spentUsd, exceededBudget.budgetUsd)}), so new prompts are paused ` +
+                `${exceededBudget.period === 'daily' ? 'until tomorrow' : 'until next month'}.\n\n` +
+                `A channel admin can run \`budget override\` to allow prompts for the rest of today, or raise the budget with \`budget ${exceededBudget.period} <usd>\`.`
+            )
+        });
+        return;
+    }
+
+    // Show thinking indicator
+    const thinkingResult = await client.chat.postMessage({
+        channel: channelId,
+        thread_ts: replyThreadTs,
+        text: 'Thinking...',
+        blocks: formatThinking()
+    });
+    const thinkingTs = thinkingResult.ts as string;
+
+    // Compact mode: the thinking message becomes the response; tool activity goes in a thread under it
+    const compact = getChannelDisplayMode(channelId) === 'compact';
+    const activityThreadTs = compact ? (replyThreadTs || thinkingTs) : replyThreadTs;
+
+    let accumulatedContent = '';
+    const response = createStreamedResponse(compact ? thinkingTs : undefined);
+    let lastToolName: string | null = null;
+
+    // Tool-use lines by tool_use_id, so results can be shown next to them
+    const showToolResults = getChannelShowsToolResults(channelId);
+    const toolPosts = new Map<string, { ts: string; toolName: string; blocks: any[] }>();
+
+    // Progress card: the thinking message shows elapsed time, the current step and the todo list
+    // (in compact mode it sits under the streamed response)
+    const progress: ProgressState = { startedAt: Date.now(), toolCount: 0, todos: [] };
+    const runId = crypto.randomUUID();  // The Stop button only stops this run
+    let progressOutcome: 'done' | 'stopped' | 'failed' | null = null;
+    let progressStarted = false;
+    let progressTimer: NodeJS.Timeout | null = null;
+    let writtenCard = '';
+    let runResult: any = null;
+    let resultFooter: any[] = [];
+
+    /**
+     * Start the elapsed-time ticker once the run is actually running (not queued)
+     */
+    const startProgress = () => {
+        if (progressStarted) return;
+        progressStarted = true;
+        progress.startedAt = Date.now();
+        progressTimer = setInterval(() => refreshResponse(), PROGRESS_REFRESH_MS);
+    };
+
+    /**
+     * Stop the ticker and collapse the card into a summary
+     */
+    const endProgress = async (outcome: 'done' | 'stopped' | 'failed') => {
+        if (progressTimer) clearInterval(progressTimer);
+        progressTimer = null;
+        progress.endedAt = Date.now();
+        progressOutcome = stoppedRuns.has(thinkingTs) ? 'stopped' : outcome;
+        refreshResponse();
+        await flushUpdates(thinkingTs);
+        stoppedRuns.delete(thinkingTs);
+    };
+
+    const renderCard = () => progressOutcome
+        ? formatProgressSummary(progress, progressOutcome, stoppedRuns.get(thinkingTs))
+        : formatProgressCard(progress, `${runSessionKey}|${userId}|${runId}`);
+
+    // Refresh the progress card and response message(s) (coalesced and rate limited)
+    const refreshResponse = () => scheduleUpdate(thinkingTs, channelId, async () => {
+        if (!progressStarted && !progressOutcome) return;
+        const card = renderCard();
+        const slack = getSchedulerClient(client);
+
+        if (compact) {
+            // The card (and the result footer, once done) sits under the response
+            response.footer = [...card, ...resultFooter];
+            if (!accumulatedContent.trim()) {
+                const cardJson = JSON.stringify(response.footer);
+                if (cardJson === writtenCard) return;
+                await slack.chat.update({
+                    channel: channelId,
+                    ts: thinkingTs,
+                    text: progressOutcome ? 'Done' : 'Working...',
+                    blocks: response.footer
+                });
+                writtenCard = cardJson;
+                return;
+            }
+        } else {
+            const cardJson = JSON.stringify(card);
+            if (cardJson !== writtenCard) {
+                await slack.chat.update({
+                    channel: channelId,
+                    ts: thinkingTs,
+                    text: progressOutcome ? 'Done' : 'Working...',
+                    blocks: card
+                });
+                writtenCard = cardJson;
+            }
+            if (!accumulatedContent.trim()) return;
+        }
+
+        await updateSlackMessage(
+            slack,
+            channelId,
+            response,  // Streaming state: updates the last chunk in place
+            accumulatedContent,
+            replyThreadTs
+        );
+    });
+
+    const cwd = getChannelWorkingDir(channelId);
+    console.log(`[SDK] Sending message to session ${runSessionKey} with cwd: ${cwd}`);
+
+    if (steer) {
+        // Pending approvals belong to the run being interrupted
+        cancelUserApprovals(channelId, runSessionKey === channelId ? undefined : replyThreadTs);
+    }
+
+    /**
+     * Audit and announce a tool call the permission policy decided without asking
+     */
+    const recordPolicyDecision = async (requestId: string, toolName: string, input: any, decision: PolicyDecision) => {
+        const now = new Date().toISOString();
+        appendAuditEntry({
+            requestId,
+            channelId,
+            threadTs: replyThreadTs,
+            requestedBy: userId,
+            decidedBy: 'policy',
+            toolName,
+            inputSummary: summarizeInput(toolName, input),
+            decision: decision.action === 'allow' ? 'auto-approved' : 'auto-denied',
+            rule: decision.reason,
+            requestedAt: now,
+            decidedAt: now
+        });
+
+        if (decision.action === 'allow') {
+            console.log(`[Policy] Auto-approved ${toolName} (${decision.reason})`);
+            if (decision.scope !== 'default') {
+                await postPolicyNote(client, channelId, activityThreadTs, `✅ Auto-allowed \`${toolName}\` by ${decision.reason}`);
+            }
+        } else {
+            console.log(`[Policy] Denied ${toolName} (${decision.reason})`);
+            await postPolicyNote(client, channelId, activityThreadTs, `🚫 Denied \`${toolName}\` by ${decision.reason}`);
+        }
+    };
+
+    try {
+        await sendMessage(runSessionKey, text, {
+            cwd: cwd,
+            permissionMode: getUserPermissionMode(channelId),
+            model: getChannelModel(channelId) || undefined,
+            ...getChannelLimits(channelId),
+            systemPromptAppend: getChannelSystemPrompt(channelId) || undefined,
+            ...getChannelTools(channelId),
+            steer,
+            runId,
+
+            onQueued: async (queueId, position) => {
+                try {
+                    await client.chat.update({
+                        channel: channelId,
+                        ts: thinkingTs,
+                        text: `Queued (#${position})`,
+                        blocks: formatQueued(position, queueId)
+                    });
+                } catch (err: any) {
+                    console.error('[Slack] Failed to update queued indicator:', err.message);
+                }
+            },
+
+            onDequeued: async () => {
+                startProgress();
+                refreshResponse();
+            },
+
+            onCancelled: async () => {
+                if (imagePaths.length > 0) {
+                    deleteImages(imagePaths);
+                }
+                try {
+                    await client.chat.update({
+                        channel: channelId,
+                        ts: thinkingTs,
+                        ...simpleMessage('🚫 Queued message cancelled.')
+                    });
+                } catch (e) {
+                    // Ignore
+                }
+            },
+
+            onMessage: async (sdkMsg) => {
+                try {
+                    // Debug: log all message types
+                    console.log(`[SDK] Message type: ${sdkMsg.type}, subtype: ${sdkMsg.subtype || 'none'}`);
+                    startProgress();
+
+                    // Handle different message types
+                    if (sdkMsg.type === 'assistant' && sdkMsg.message?.content) {
+                        // Extract text content
+                        for (const block of sdkMsg.message.content) {
+                            if (block.type === 'text') {
+                                accumulatedContent += block.text;
+                            } else if (block.type === 'tool_use') {
+                                lastToolName = block.name;
+                                progress.toolCount++;
+                                progress.currentStep = describeToolUse(block.name, block.input);
+                                if (block.name === 'TodoWrite' && Array.isArray(block.input?.todos)) {
+                                    progress.todos = block.input.todos;
+                                }
+
+                                // Show tool use indicator (in order with the streamed text)
+                                const toolBlocks = formatToolUse(block.name, block.input);
+                                const toolPost = await schedulePost<any>(channelId, () => getSchedulerClient(client).chat.postMessage({
+                                    channel: channelId,
+                                    thread_ts: activityThreadTs,
+                                    text: `Using tool: ${block.name}`,
+                                    blocks: toolBlocks
+                                }));
+                                if (toolPost.ts) {
+                                    toolPosts.set(block.id, { ts: toolPost.ts, toolName: block.name, blocks: toolBlocks });
+                                }
+
+                                if (compact && !progress.activityLink && toolPost.ts) {
+                                    try {
+                                        const permalink = await client.chat.getPermalink({ channel: channelId, message_ts: toolPost.ts });
+                                        progress.activityLink = permalink.permalink || null;
+                                    } catch (err: any) {
+                                        console.error('[Slack] Failed to get activity link:', err.message);
+                                    }
+                                }
+                            }
+                        }
+
+                        refreshResponse();
+                    } else if (sdkMsg.type === 'user' && showToolResults && Array.isArray(sdkMsg.message?.content)) {
+                        // Tool results: append the output to the matching tool-use line
+                        for (const block of sdkMsg.message.content) {
+                            if (block.type !== 'tool_result') continue;
+
+                            const toolPost = toolPosts.get(block.tool_use_id);
+                            const toolName = toolPost?.toolName || 'Tool';
+                            const output = getToolResultText(block);
+                            const { preview, truncated } = previewToolOutput(output);
+                            const outputId = truncated ? storeToolOutput(toolName, output) : undefined;
+                            const resultBlocks = formatToolResult(preview, !!block.is_error, truncated, outputId);
+
+                            if (toolPost) {
+                                await schedulePost(channelId, () => getSchedulerClient(client).chat.update({
+                                    channel: channelId,
+                                    ts: toolPost.ts,
+                                    text: `${toolName} ${block.is_error ? 'failed' : 'finished'}`,
+                                    blocks: [...toolPost.blocks, ...resultBlocks]
+                                }));
+                            } else {
+                                await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
+                                    channel: channelId,
+                                    thread_ts: activityThreadTs,
+                                    text: `${toolName} ${block.is_error ? 'failed' : 'finished'}`,
+                                    blocks: resultBlocks
+                                }));
+                            }
+                        }
+                    } else if (sdkMsg.type === 'result') {
+                        // Final result with token usage
+                        console.log(`[SDK] Result message:`, JSON.stringify(sdkMsg, null, 2).slice(0, 500));
+                        runResult = sdkMsg;
+                        const runCost = getRunCost(sdkMsg);
+                        const usage = sdkMsg.modelUsage;
                         if (usage) {
                             // Aggregate usage from all models
                             let totalInput = 0;
@@ -714,28 +1898,91 @@ app.message(async ({ message, client }) => {
                             }
 
                             // Update session token usage
-                            updateTokenUsage(channelId, {
+                            updateTokenUsage(runSessionKey, {
                                 inputTokens: totalInput,
                                 outputTokens: totalOutput,
                                 cacheReadTokens: totalCacheRead,
-                                cacheWriteTokens: totalCacheWrite
+                                cacheWriteTokens: totalCacheWrite,
+                                costUsd: runCost
                             });
 
                             console.log(`[SDK] Tokens - Input: ${totalInput}, Output: ${totalOutput}, Cache: ${totalCacheRead}/${totalCacheWrite}`);
                         }
+
+                        appendUsageRecord(createUsageRecord(sdkMsg, channelId, userId, runCost, replyThreadTs));
+
+                        // Add to channel/user spend and warn when a budget threshold is crossed
+                        for (const alert of recordCost(channelId, userId, runCost)) {
+                            const alertText = alert.exceeded
+                                ? `🛑 This channel has used its ${alert.period} budget (${formatSpend(alert.spentUsd, alert.budgetUsd)}). ` +
+                                  `New prompts will be refused ${alert.period === 'daily' ? 'until tomorrow' : 'until next month'}; ` +
+                                  `a channel admin can run \`budget override\` to allow them for the rest of today.`
+                                : `⚠️ This channel has used ${formatSpend(alert.spentUsd, alert.budgetUsd)} of its ${alert.period} budget.`;
+                            await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
+                                channel: channelId,
+                                thread_ts: replyThreadTs,
+                                ...simpleMessage(alertText)
+                            }));
+                        }
+
+                        // Warn once when the context window is filling up (again after a compaction)
+                        const contextPercent = getContextPercent(runSessionKey);
+                        if (contextPercent !== null && contextPercent >= config.contextWarningPercent) {
+                            if (!contextWarnings.has(runSessionKey)) {
+                                contextWarnings.add(runSessionKey);
+                                await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
+                                    channel: channelId,
+                                    thread_ts: replyThreadTs,
+                                    ...simpleMessage(
+                                        `⚠️ The conversation is using ${contextPercent}% of the context window. ` +
+                                        `Run \`compact\` to summarize it, or \`exit\` to start a fresh session.`
+                                    )
+                                }));
+                            }
+                        } else {
+                            contextWarnings.delete(runSessionKey);
+                        }
+                    } else if (sdkMsg.type === 'system' && sdkMsg.subtype === 'compact_boundary') {
+                        // The SDK summarized the conversation (on `compact` or automatically near the limit)
+                        const metadata = sdkMsg.compact_metadata || {};
+                        await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
+                            channel: channelId,
+                            thread_ts: replyThreadTs,
+                            ...simpleMessage(
+                                `🗜️ Context compacted${metadata.trigger === 'auto' ? ' automatically' : ''}: ` +
+                                `${formatTokenCount(metadata.pre_tokens || 0)} tokens of conversation summarized.`
+                            )
+                        }));
                     }
                 } catch (err: any) {
                     console.error('[Slack] Message update error:', err.message);
                 }
             },
 
+            onPolicyCheck: async (toolName, input) => {
+                // Deny rules also hold in modes that skip onToolApproval (bypass, edits in accept mode)
+                const decision = evaluatePolicy(toolName, input, { cwd, channelId, sessionKey: runSessionKey });
+                if (decision.action !== 'deny') return null;
+                await recordPolicyDecision(crypto.randomUUID(), toolName, input, decision);
+                return `Blocked by permission policy (${decision.reason})`;
+            },
+
             onToolApproval: async (request) => {
-                // Auto-approve safe tools
-                if (config.autoApproveTools.includes(request.toolName)) {
-                    console.log(`[SDK] Auto-approved tool: ${request.toolName}`);
+                // Evaluate channel/global policy rules first
+                const decision = evaluatePolicy(request.toolName, request.input, { cwd, channelId, sessionKey: runSessionKey });
+
+                if (decision.action !== 'ask') {
+                    await recordPolicyDecision(request.requestId, request.toolName, request.input, decision);
+                }
+
+                if (decision.action === 'allow') {
                     return true;
                 }
 
+                if (decision.action === 'deny') {
+                    return { denied: true, reason: `Blocked by permission policy (${decision.reason})` };
+                }
+
                 // Request user approval via Slack buttons
                 return await requestApproval(
                     client,
@@ -743,24 +1990,47 @@ app.message(async ({ message, client }) => {
                     userId,
                     request.requestId,
                     request.toolName,
-                    request.input
+                    request.input,
+                    {
+                        threadTs: activityThreadTs,
+                        sessionKey: runSessionKey,
+                        cwd,
+                        policyReason: decision.reason,
+                        allowGrant: decision.scope === 'default',
+                        signal: request.signal
+                    }
                 );
             },
 
             onUserQuestion: async (request) => {
-                // Convert SDK options format to our format
-                const options = request.options.map(opt => ({
-                    label: opt.label,
-                    value: opt.value
-                }));
+                // A single question is answered inline; several share one form
+                if (request.questions.length === 1) {
+                    const [q] = request.questions;
+                    const answer = await requestUserQuestion(
+                        client,
+                        channelId,
+                        userId,
+                        request.requestId,
+                        q.question,
+                        q.options,
+                        {
+                            threadTs: activityThreadTs,
+                            header: q.header,
+                            multiSelect: q.multiSelect,
+                            signal: request.signal
+                        }
+                    );
+                    return [answer];
+                }
 
-                return await requestUserQuestion(
+                return await requestQuestionForm(
                     client,
                     channelId,
                     userId,
                     request.requestId,
-                    request.question,
-                    options
+                    request.questions,
+                    activityThreadTs,
+                    request.signal
                 );
             },
 
@@ -773,15 +2043,32 @@ app.message(async ({ message, client }) => {
                     console.log(`[Image] Auto-deleted ${imagePaths.length} image(s) after completion`);
                 }
 
-                // Delete thinking indicator if no content was sent
-                if (!currentMessageTs) {
+                // Compact mode shows the cost/time/turns footer under the response
+                if (runResult && compact) {
+                    resultFooter = formatResultFooter(runResult, getRunCost(runResult));
+                }
+
+                // Always show the final streamed state, with the card collapsed into a summary
+                await endProgress('done');
+
+                // Upload the response as a file if it outgrew chat messages
+                try {
+                    await finishSlackMessage(client, channelId, response, accumulatedContent, replyThreadTs);
+                } catch (err: any) {
+                    console.error('[Slack] Failed to finish response:', err.message);
+                }
+
+                // End with the run's cost/time/turns footer
+                if (runResult && !compact) {
                     try {
-                        await client.chat.delete({
+                        await schedulePost(channelId, () => getSchedulerClient(client).chat.postMessage({
                             channel: channelId,
-                            ts: thinkingTs
-                        });
-                    } catch (e) {
-                        // Ignore
+                            thread_ts: replyThreadTs,
+                            text: runResult.subtype === 'success' ? 'Run finished' : 'Run stopped early',
+                            blocks: formatResultFooter(runResult, getRunCost(runResult))
+                        }));
+                    } catch (err: any) {
+                        console.error('[Slack] Failed to post result footer:', err.message);
                     }
                 }
             },
@@ -795,18 +2082,27 @@ app.message(async ({ message, client }) => {
                     console.log(`[Image] Auto-deleted ${imagePaths.length} image(s) after error`);
                 }
 
-                // Delete thinking indicator
-                try {
-                    await client.chat.delete({
-                        channel: channelId,
-                        ts: thinkingTs
-                    });
-                } catch (e) {
-                    // Ignore
+                // Keep whatever was streamed before the error
+                await endProgress('failed');
+
+                // Compact mode with nothing streamed: show the error in the response message itself
+                if (compact && response.chunks.length === 0) {
+                    try {
+                        await client.chat.update({
+                            channel: channelId,
+                            ts: thinkingTs,
+                            text: `Error: ${err.message}`,
+                            blocks: [...formatError(err.message), ...response.footer]
+                        });
+                        return;
+                    } catch (e) {
+                        // Fall through and post the error
+                    }
                 }
 
                 await client.chat.postMessage({
                     channel: channelId,
+                    thread_ts: replyThreadTs,
                     text: `Error: ${err.message}`,
                     blocks: formatError(err.message)
                 });
@@ -814,8 +2110,10 @@ app.message(async ({ message, client }) => {
         });
     } catch (err: any) {
         console.error('[SDK] Unhandled error:', err);
+        if (progressTimer) clearInterval(progressTimer);
         await client.chat.postMessage({
             channel: channelId,
+            thread_ts: replyThreadTs,
             text: `Error: ${err.message}`,
             blocks: formatError(err.message)
         });
@@ -824,21 +2122,64 @@ app.message(async ({ message, client }) => {
 
 // ===== Button Action Handlers =====
 
+/**
+ * Check the clicking user may respond to a pending approval or question
+ * Sends an ephemeral refusal if not.
+ */
+async function ensureApprover(
+    client: any,
+    actionBody: any,
+    pending: { userId: string; channelId: string; threadTs?: string }
+): Promise<boolean> {
+    const clickerId = actionBody.user?.id;
+    if (await isAuthorizedApprover(client, clickerId, pending.userId, pending.channelId)) {
+        return true;
+    }
+
+    console.log(`[Auth] ${clickerId} is not allowed to respond to a request from ${pending.userId}`);
+    try {
+        await client.chat.postEphemeral({
+            channel: pending.channelId,
+            user: clickerId,
+            thread_ts: pending.threadTs,
+            text: `🚫 You can't respond to this request. Only ${describeApprovers(pending.userId)} can.`
+        });
+    } catch (err: any) {
+        console.error('[Auth] Failed to send refusal:', err.message);
+    }
+    return false;
+}
+
+app.action('cancel_queued', async ({ ack, body }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const queueId = actionBody.actions[0].value;
+
+    // The message's onCancelled callback updates the indicator
+    if (!cancelQueuedMessage(queueId)) {
+        console.log(`[Queue] Message ${queueId} already started or cancelled`);
+    }
+});
+
 app.action('approve_tool', async ({ ack, body, client }) => {
     await ack();
 
     const actionBody = body as any;
     const requestId = actionBody.actions[0].value;
     const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
 
-    handleApprovalAction(requestId, true);
+    handleApprovalAction(requestId, true, { decidedBy: actionBody.user?.id, decision: 'allow' });
 
     if (pending) {
         await updateApprovalMessage(
             client,
             pending.channelId,
             pending.messageTs,
-            'approved'
+            'approved',
+            undefined,
+            actionBody.user?.id
         );
     }
 });
@@ -849,15 +2190,18 @@ app.action('deny_tool', async ({ ack, body, client }) => {
     const actionBody = body as any;
     const requestId = actionBody.actions[0].value;
     const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
 
-    handleApprovalAction(requestId, false);
+    handleApprovalAction(requestId, false, { decidedBy: actionBody.user?.id, decision: 'deny' });
 
     if (pending) {
         await updateApprovalMessage(
             client,
             pending.channelId,
             pending.messageTs,
-            'denied'
+            'denied',
+            undefined,
+            actionBody.user?.id
         );
     }
 });
@@ -869,38 +2213,112 @@ app.action('always_allow_tool', async ({ ack, body, client }) => {
     const value = actionBody.actions[0].value;
     const [requestId, toolName] = value.split(':');
     const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
+
+    // Grant the tool for this session only (not globally)
+    let grantText: string | undefined;
+    if (pending && toolName) {
+        const grant = addGrant(pending.sessionKey, { tool: toolName, grantedBy: actionBody.user?.id });
+        grantText = `\`${describeGrant(grant)}\` in this ${pending.sessionKey === pending.channelId ? 'channel' : 'thread'}`;
+    }
+
+    handleApprovalAction(requestId, true, { decidedBy: actionBody.user?.id, decision: 'always', note: grantText });
+
+    if (pending) {
+        await updateApprovalMessage(
+            client,
+            pending.channelId,
+            pending.messageTs,
+            'always_allow',
+            grantText,
+            actionBody.user?.id
+        );
+    }
+});
+
+app.action('always_allow_exact', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const requestId = actionBody.actions[0].value;
+    const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
 
-    // Add to auto-approve list for this session
-    if (toolName && !config.autoApproveTools.includes(toolName)) {
-        config.autoApproveTools.push(toolName);
-        console.log(`[Config] Added ${toolName} to auto-approve list`);
+    // Grant only this exact command or file
+    let grantText: string | undefined;
+    if (pending) {
+        const cwd = getChannelWorkingDir(pending.channelId);
+        const filePath = getInputPath(pending.input);
+        const grant = addGrant(pending.sessionKey, {
+            tool: pending.toolName,
+            command: typeof pending.input?.command === 'string' ? pending.input.command.trim() : undefined,
+            path: typeof pending.input?.command !== 'string' && filePath ? path.resolve(cwd, filePath) : undefined,
+            grantedBy: actionBody.user?.id
+        });
+        grantText = `\`${describeGrant(grant)}\``;
     }
 
-    handleApprovalAction(requestId, true);
+    handleApprovalAction(requestId, true, { decidedBy: actionBody.user?.id, decision: 'always', note: grantText });
 
     if (pending) {
         await updateApprovalMessage(
             client,
             pending.channelId,
             pending.messageTs,
-            'always_allow'
+            'always_allow',
+            grantText,
+            actionBody.user?.id
         );
     }
 });
 
+app.action('revoke_grant', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const value: string = actionBody.actions[0].value;
+    const separator = value.lastIndexOf('|');
+    const sessionKey = value.slice(0, separator);
+    const grantId = value.slice(separator + 1);
+    const channelId = actionBody.channel?.id;
+
+    // Same rule as answering an approval, with whoever made the grant as the requester
+    const grant = getGrants(sessionKey).find(g => g.id === grantId);
+    if (grant) {
+        const owner = { userId: grant.grantedBy || '', channelId, threadTs: actionBody.message?.thread_ts };
+        if (!await ensureApprover(client, actionBody, owner)) return;
+        revokeGrant(sessionKey, grantId);
+    }
+
+    // Refresh the grant list in place
+    try {
+        const grants = getGrants(sessionKey);
+        await client.chat.update({
+            channel: channelId,
+            ts: actionBody.message?.ts,
+            text: `Always Allow grants: ${grants.length}`,
+            blocks: formatGrantList(grants, sessionKey)
+        });
+    } catch (err: any) {
+        console.error('[Policy] Failed to refresh grant list:', err.message);
+    }
+});
+
 app.action('deny_with_feedback', async ({ ack, body, client }) => {
     await ack();
 
     const actionBody = body as any;
     const requestId = actionBody.actions[0].value;
     const triggerId = actionBody.trigger_id;
+    const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
 
     // Open feedback modal
     await openFeedbackModal(client, triggerId, requestId);
 });
 
 // Handle feedback modal submission
-app.view(/^feedback_modal_/, async ({ ack, view, client }) => {
+app.view(/^feedback_modal_/, async ({ ack, body, view, client }) => {
     await ack();
 
     const requestId = view.private_metadata;
@@ -910,60 +2328,339 @@ app.view(/^feedback_modal_/, async ({ ack, view, client }) => {
     console.log(`[Feedback] Request ${requestId}: ${feedback}`);
 
     // Deny with feedback
-    handleApprovalAction(requestId, { denied: true, feedback });
+    handleApprovalAction(requestId, { denied: true, feedback }, { decidedBy: body.user.id, decision: 'feedback', note: feedback });
 
     if (pending) {
         await updateApprovalMessage(
             client,
             pending.channelId,
             pending.messageTs,
-            'denied'
+            'denied',
+            'with feedback',
+            body.user.id
         );
 
         // Send feedback as a follow-up message
         if (feedback) {
             await client.chat.postMessage({
                 channel: pending.channelId,
+                thread_ts: pending.threadTs,
                 text: `💬 *Feedback:* ${feedback}`
             });
         }
     }
 });
 
-// ===== Question Answer Handlers =====
-// Handle question_answer_0 through question_answer_4 (max 5 options)
-for (let i = 0; i < 5; i++) {
-    app.action(`question_answer_${i}`, async ({ ack, body, client }) => {
+app.action('edit_and_allow', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const requestId = actionBody.actions[0].value;
+    const triggerId = actionBody.trigger_id;
+    const pending = getPendingApproval(requestId);
+    if (pending && !await ensureApprover(client, actionBody, pending)) return;
+
+    // Open modal pre-filled with the editable input fields
+    await openEditInputModal(client, triggerId, requestId);
+});
+
+// Handle edit input modal submission
+app.view(/^edit_input_modal_/, async ({ ack, body, view, client }) => {
+    const requestId = view.private_metadata;
+    const pending = getPendingApproval(requestId);
+    const edits = applyInputEdits(requestId, view.state.values);
+    if (!pending || !edits) {
         await ack();
+        return;
+    }
+
+    // The edited input must pass the same deny rules as the original
+    const decision = evaluatePolicy(pending.toolName, edits.updatedInput, {
+        cwd: pending.cwd,
+        channelId: pending.channelId,
+        sessionKey: pending.sessionKey
+    });
+    if (decision.action === 'deny') {
+        const blockIds = Object.keys(view.state.values);
+        const blockId = blockIds.find(id => edits.updatedInput[id.slice('edit_'.length)] !== pending.input[id.slice('edit_'.length)])
+            || blockIds[0];
+        console.log(`[EditAllow] Request ${requestId}: edited input denied (${decision.reason})`);
+        await ack({
+            response_action: 'errors',
+            errors: { [blockId]: `Blocked by permission policy (${decision.reason})` }
+        });
+        return;
+    }
+    await ack();
 
-        const actionBody = body as any;
-        const value = actionBody.actions[0].value;
-        const [requestId, answer] = value.split(':');
-        const pending = getPendingQuestion(requestId);
+    console.log(`[EditAllow] Request ${requestId}: ${edits.changes.length} field(s) changed`);
 
-        handleQuestionAnswer(requestId, answer);
+    // Allow with the modified input
+    handleApprovalAction(requestId, { approved: true, updatedInput: edits.updatedInput }, {
+        decidedBy: body.user.id,
+        decision: 'edited',
+        note: edits.changes.join('; ') || 'no changes'
+    });
 
-        if (pending) {
-            // Find the label for this answer
-            const option = pending.options.find(opt => opt.value === answer);
-            const answerLabel = option?.label || answer;
+    await updateApprovalMessage(
+        client,
+        pending.channelId,
+        pending.messageTs,
+        'approved',
+        edits.changes.length > 0
+            ? `with changes:\n${edits.changes.map(c => `• ${c}`).join('\n')}`
+            : 'no changes made',
+        body.user.id
+    );
+});
 
-            await updateQuestionMessage(
-                client,
-                pending.channelId,
-                pending.messageTs,
-                'answered',
-                answerLabel
-            );
-        }
+app.action('stop_run', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const [sessionKey, requesterId, runId] = actionBody.actions[0].value.split('|');
+    const channelId = actionBody.channel?.id;
+    const cardTs = actionBody.message?.ts;
+    if (!await ensureApprover(client, actionBody, { userId: requesterId, channelId, threadTs: actionBody.message?.thread_ts })) return;
+
+    console.log(`[Progress] Stop requested for ${sessionKey} by ${actionBody.user?.id}`);
+    // A card left over from a finished run must not stop the run after it
+    if (!interruptSession(sessionKey, runId)) {
+        console.log(`[Progress] Run ${runId} is no longer active in ${sessionKey}`);
+        return;
+    }
+    stoppedRuns.set(cardTs, actionBody.user?.id);
+    cancelUserApprovals(channelId, sessionKey === channelId ? undefined : sessionKey.slice(channelId.length + 1));
+});
+
+app.action('system_prompt_edit', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const [sessionKey, threadTs] = actionBody.actions[0].value.split('|');
+    const channelId = actionBody.channel?.id;
+    if (!await isChannelAdmin(client, actionBody.user?.id, channelId)) {
+        await client.chat.postEphemeral({
+            channel: channelId,
+            user: actionBody.user?.id,
+            thread_ts: threadTs || undefined,
+            text: '🚫 Only channel admins can change the channel instructions.'
+        });
+        return;
+    }
+    await openSystemPromptModal(client, actionBody.trigger_id, channelId, sessionKey, threadTs || undefined);
+});
+
+// Handle channel instructions modal submission
+app.view('system_prompt_modal', async ({ ack, body, view, client }) => {
+    const { channelId, threadTs } = JSON.parse(view.private_metadata);
+    const instructions = view.state.values.system_block?.system_input?.value || '';
+
+    if (!await isChannelAdmin(client, body.user.id, channelId)) {
+        await ack({
+            response_action: 'errors',
+            errors: { system_block: 'Only channel admins can change the channel instructions' }
+        });
+        return;
+    }
+
+    if (!setChannelSystemPrompt(channelId, instructions)) {
+        await ack({
+            response_action: 'errors',
+            errors: { system_block: `At most ${MAX_SYSTEM_PROMPT_LENGTH} characters` }
+        });
+        return;
+    }
+    await ack();
+
+    // Start new sessions (threads too) so the instructions apply from the first turn
+    for (const key of clearChannelSessions(channelId)) {
+        contextWarnings.delete(key);
+    }
+    cancelUserApprovals(channelId);
+    await client.chat.postMessage({
+        channel: channelId,
+        thread_ts: threadTs,
+        ...simpleMessage(instructions.trim()
+            ? `📝 <@${body.user.id}> updated the channel instructions. Starting a new session.`
+            : `📝 <@${body.user.id}> removed the channel instructions. Starting a new session.`)
     });
+});
+
+app.action('show_tool_output', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const channelId = actionBody.channel?.id;
+    const message = actionBody.message;
+
+    // Upload into the tool line's thread
+    const uploaded = await uploadToolOutput(client, actionBody.actions[0].value, channelId, message?.thread_ts || message?.ts);
+    if (!uploaded) {
+        await client.chat.postEphemeral({
+            channel: channelId,
+            user: actionBody.user?.id,
+            thread_ts: message?.thread_ts,
+            text: 'This output is no longer available.'
+        });
+    }
+});
+
+// ===== Question Answer Handlers =====
+
+/**
+ * Answer a question with the chosen option indexes and update its message
+ */
+async function answerQuestion(client: any, actionBody: any, requestId: string, indexes: number[]): Promise<void> {
+    const pending = getPendingQuestion(requestId);
+    if (!pending || !await ensureApprover(client, actionBody, pending)) return;
+
+    const answerLabel = answerQuestionWithOptions(requestId, indexes);
+    if (answerLabel === null) {
+        await client.chat.postEphemeral({
+            channel: pending.channelId,
+            user: actionBody.user?.id,
+            thread_ts: pending.threadTs,
+            text: 'Select at least one option first.'
+        });
+        return;
+    }
+
+    await updateQuestionMessage(
+        client,
+        pending.channelId,
+        pending.messageTs,
+        'answered',
+        answerLabel,
+        actionBody.user?.id
+    );
 }
 
+// Single-choice buttons (question_answer_0, question_answer_1, ...)
+app.action(/^question_answer_\d+$/, async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const { requestId, index } = parseQuestionOptionValue(actionBody.actions[0].value);
+    await answerQuestion(client, actionBody, requestId, [index]);
+});
+
+// Single-choice select menu for questions with many options
+app.action('question_select', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const { requestId, index } = parseQuestionOptionValue(actionBody.actions[0].selected_option.value);
+    await answerQuestion(client, actionBody, requestId, [index]);
+});
+
+// Multi-select changes are only read when Submit is pressed
+app.action('question_checkboxes', async ({ ack }) => {
+    await ack();
+});
+
+app.action('question_multi_select', async ({ ack }) => {
+    await ack();
+});
+
+app.action('question_submit', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const requestId = actionBody.actions[0].value;
+    const blockState = actionBody.state?.values?.[`question_${requestId}`] || {};
+    const selected: any[] = (blockState.question_checkboxes || blockState.question_multi_select)?.selected_options || [];
+    const indexes = selected.map(opt => parseQuestionOptionValue(opt.value).index);
+
+    await answerQuestion(client, actionBody, requestId, indexes);
+});
+
+app.action('question_other', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const requestId = actionBody.actions[0].value;
+    const pending = getPendingQuestion(requestId);
+    if (!pending || !await ensureApprover(client, actionBody, pending)) return;
+
+    // Open modal for a free-text answer
+    await openQuestionOtherModal(client, actionBody.trigger_id, requestId);
+});
+
+// Handle free-text answer modal submission
+app.view(/^question_other_modal_/, async ({ ack, body, view, client }) => {
+    await ack();
+
+    const requestId = view.private_metadata;
+    const answer = (view.state.values.other_block?.other_input?.value || '').trim();
+    const pending = getPendingQuestion(requestId);
+    if (!pending || !answer) return;
+
+    console.log(`[Question] Request ${requestId}: free-text answer`);
+    handleQuestionAnswer(requestId, answer);
+
+    await updateQuestionMessage(
+        client,
+        pending.channelId,
+        pending.messageTs,
+        'answered',
+        answer,
+        body.user.id
+    );
+});
+
+app.action('question_form_open', async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as any;
+    const requestId = actionBody.actions[0].value;
+    const pending = getPendingQuestionForm(requestId);
+    if (!pending || !await ensureApprover(client, actionBody, pending)) return;
+
+    // Open form with one input per question
+    await openQuestionFormModal(client, actionBody.trigger_id, requestId);
+});
+
+// Handle question form submission
+app.view(/^question_form_modal_/, async ({ ack, body, view, client }) => {
+    const requestId = view.private_metadata;
+    const pending = getPendingQuestionForm(requestId);
+    const result = readQuestionFormAnswers(requestId, view.state.values);
+
+    // Keep the form open until every question has an answer
+    if (result && 'errors' in result) {
+        await ack({ response_action: 'errors', errors: result.errors });
+        return;
+    }
+    await ack();
+    if (!pending || !result) return;
+
+    console.log(`[Question] Form ${requestId}: ${result.answers.length} answer(s)`);
+    handleQuestionFormAnswers(requestId, result.answers);
+
+    await updateQuestionFormMessage(
+        client,
+        pending.channelId,
+        pending.messageTs,
+        'answered',
+        pending.questions,
+        result.answers,
+        body.user.id
+    );
+});
+
 // ===== Start App =====
 
 (async () => {
+    // Restore sessions, working dirs and modes from the last run
+    initSessionStore();
+    setInterval(() => pruneThreadStates(), THREAD_PRUNE_INTERVAL_MS);
+    loadGlobalPolicy();
+
     await app.start();
     console.log('⚡️ Slack-Claude Bridge (SDK Mode) is running!');
     console.log(`📂 Default project path: ${config.defaultProjectPath}`);
+    console.log(`🔧 Allowed tools: ${config.allowedTools.join(', ')}`);
+    if (config.disallowedTools.length > 0) console.log(`🚫 Disallowed tools: ${config.disallowedTools.join(', ')}`);
     console.log(`🔧 Auto-approve tools: ${config.autoApproveTools.join(', ')}`);
 })();
@@ -0,0 +1,393 @@
+/**
+ * Permission Policy
+ *
+ * Rule-based allow/deny/ask decisions for tool use, evaluated before
+ * asking for approval in Slack. Rules match on tool name plus input
+ * fields (Bash command globs/regex, file path globs relative to cwd).
+ * Global rules come from a JSON file; channel rules are persisted in the session store.
+ * "Always Allow" grants are scoped to a session (channel or thread).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { getStoredState, updateStoredState } from './sessionStore';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+export interface PolicyRule {
+    action: PolicyAction;
+    tool: string;         // Tool name, '*' globs allowed (e.g. 'mcp__*')
+    command?: string;     // Bash command glob, or /regex/ (flags allowed)
+    path?: string;        // File path glob relative to cwd (absolute globs match absolute paths)
+    description?: string;
+}
+
+export interface ToolGrant {
+    id: string;
+    tool: string;
+    command?: string;     // Exact Bash command (whole tool if omitted)
+    path?: string;        // Exact absolute file path (whole tool if omitted)
+    grantedBy?: string;
+    grantedAt: number;
+}
+
+export interface PolicyDecision {
+    action: PolicyAction;
+    rule?: PolicyRule;
+    grant?: ToolGrant;
+    scope: 'channel' | 'global' | 'grant' | 'default';
+    index?: number;       // 1-based position of the rule in its scope
+    reason: string;
+}
+
+// Input fields that carry a file path, per tool convention
+const PATH_FIELDS = ['file_path', 'notebook_path', 'path'];
+
+// Shell chaining, substitution and redirection - an allow rule only approves a single plain command
+const COMPOUND_COMMAND = /&&|\|\||[;|&`\n<>]|\$\(/;
+
+// Where a chained command splits into separate commands (deny/ask rules check each one)
+const COMMAND_SEPARATORS = /&&|\|\||[;|&`\n]|\$\(/;
+
+// Higher wins when several rules match
+const ACTION_PRECEDENCE: Record<PolicyAction, number> = { deny: 3, ask: 2, allow: 1 };
+
+let globalRules: PolicyRule[] = [];
+
+/**
+ * Convert a glob to a regular expression
+ * In path mode '*' stops at '/', '**' crosses directories; otherwise '*' matches anything.
+ */
+function globToRegExp(glob: string, pathMode: boolean): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            if (pathMode && glob[i + 1] === '*') {
+                // '**/' also matches zero directories
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+            } else {
+                source += pathMode ? '[^/]*' : '.*';
+            }
+        } else if (ch === '?') {
+            source += pathMode ? '[^/]' : '.';
+        } else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, pathMode ? '' : 's');
+}
+
+/**
+ * Match a command against a glob or /regex/flags pattern
+ */
+function matchCommand(pattern: string, command: string): boolean {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+        try {
+            return new RegExp(regexMatch[1], regexMatch[2]).test(command);
+        } catch {
+            return false;
+        }
+    }
+    return globToRegExp(pattern, false).test(command.trim());
+}
+
+/**
+ * Split a chained command into its parts, e.g. `cd /tmp && rm -rf /` -> ['cd /tmp', 'rm -rf /']
+ * Subshell and group brackets around a part are dropped.
+ */
+export function splitCommand(command: string): string[] {
+    return command
+        .split(COMMAND_SEPARATORS)
+        .map(part => part.trim().replace(/^[({\s]+|[)}\s]+$/g, ''))
+        .filter(Boolean);
+}
+
+/**
+ * Match a file path against a glob relative to cwd
+ */
+function matchPath(pattern: string, filePath: string, cwd: string): boolean {
+    const absolute = path.resolve(cwd, filePath);
+    if (path.isAbsolute(pattern)) {
+        return globToRegExp(pattern, true).test(absolute);
+    }
+    const relative = path.relative(cwd, absolute);
+    // Relative globs never match files outside the working directory
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return false;
+    return globToRegExp(pattern.replace(/^\.\//, ''), true).test(relative.split(path.sep).join('/'));
+}
+
+/**
+ * Get the file path a tool input refers to, if any
+ */
+export function getInputPath(input: any): string | undefined {
+    if (!input || typeof input !== 'object') return undefined;
+    for (const field of PATH_FIELDS) {
+        if (typeof input[field] === 'string' && input[field]) return input[field];
+    }
+    return undefined;
+}
+
+/**
+ * Check whether a rule matches a tool call
+ */
+function ruleMatches(rule: PolicyRule, toolName: string, input: any, cwd: string): boolean {
+    if (!globToRegExp(rule.tool, false).test(toolName)) return false;
+
+    if (rule.command !== undefined) {
+        const command = input?.command;
+        if (typeof command !== 'string') return false;
+        if (rule.action === 'allow') {
+            if (COMPOUND_COMMAND.test(command) || !matchCommand(rule.command, command)) return false;
+        } else {
+            // deny/ask rules can't be dodged by chaining: any part of the command matching is enough
+            const parts = [command, ...splitCommand(command)];
+            if (!parts.some(part => matchCommand(rule.command!, part))) return false;
+        }
+    }
+
+    if (rule.path !== undefined) {
+        const filePath = getInputPath(input);
+        if (!filePath || !matchPath(rule.path, filePath, cwd)) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Validate rules loaded from JSON, dropping malformed ones
+ */
+function sanitizeRules(raw: any, source: string): PolicyRule[] {
+    const list = Array.isArray(raw) ? raw : Array.isArray(raw?.rules) ? raw.rules : [];
+    const rules: PolicyRule[] = [];
+    for (const entry of list) {
+        if (!entry || typeof entry.tool !== 'string' || !['allow', 'deny', 'ask'].includes(entry.action)) {
+            console.error(`[Policy] Ignoring invalid rule in ${source}:`, JSON.stringify(entry));
+            continue;
+        }
+        rules.push({
+            action: entry.action,
+            tool: entry.tool,
+            command: typeof entry.command === 'string' ? entry.command : undefined,
+            path: typeof entry.path === 'string' ? entry.path : undefined,
+            description: typeof entry.description === 'string' ? entry.description : undefined
+        });
+    }
+    return rules;
+}
+
+/**
+ * Load global rules from the policy file
+ */
+export function loadGlobalPolicy(filePath: string = config.permissionPolicyPath): number {
+    try {
+        globalRules = fs.existsSync(filePath)
+            ? sanitizeRules(JSON.parse(fs.readFileSync(filePath, 'utf8')), filePath)
+            : [];
+    } catch (err: any) {
+        console.error(`[Policy] Failed to load ${filePath}:`, err.message);
+        globalRules = [];
+    }
+    console.log(`[Policy] Loaded ${globalRules.length} global rule(s)`);
+    return globalRules.length;
+}
+
+/**
+ * Get global rules
+ */
+export function getGlobalRules(): PolicyRule[] {
+    return [...globalRules];
+}
+
+/**
+ * Get rules defined for a channel
+ */
+export function getChannelRules(channelId: string): PolicyRule[] {
+    return [...(getStoredState(channelId)?.policyRules || [])];
+}
+
+/**
+ * Add a rule to a channel
+ */
+export function addChannelRule(channelId: string, rule: PolicyRule): number {
+    const rules = [...getChannelRules(channelId), rule];
+    updateStoredState(channelId, { policyRules: rules });
+    console.log(`[Policy] Channel ${channelId} + ${describeRule(rule)}`);
+    return rules.length;
+}
+
+/**
+ * Remove a channel rule by its 1-based index
+ */
+export function removeChannelRule(channelId: string, index: number): PolicyRule | null {
+    const rules = getChannelRules(channelId);
+    if (index < 1 || index > rules.length) return null;
+    const [removed] = rules.splice(index - 1, 1);
+    updateStoredState(channelId, { policyRules: rules });
+    console.log(`[Policy] Channel ${channelId} - ${describeRule(removed)}`);
+    return removed;
+}
+
+/**
+ * Get "Always Allow" grants for a session key
+ */
+export function getGrants(sessionKey: string): ToolGrant[] {
+    return [...(getStoredState(sessionKey)?.grants || [])];
+}
+
+/**
+ * Add an "Always Allow" grant (replaces an identical one)
+ */
+export function addGrant(sessionKey: string, grant: Omit<ToolGrant, 'id' | 'grantedAt'>): ToolGrant {
+    const created: ToolGrant = { ...grant, id: crypto.randomUUID().slice(0, 8), grantedAt: Date.now() };
+    const grants = getGrants(sessionKey).filter(g =>
+        !(g.tool === grant.tool && g.command === grant.command && g.path === grant.path));
+    grants.push(created);
+    updateStoredState(sessionKey, { grants });
+    console.log(`[Policy] Session ${sessionKey} granted ${describeGrant(created)}`);
+    return created;
+}
+
+/**
+ * Revoke a grant by ID
+ */
+export function revokeGrant(sessionKey: string, grantId: string): ToolGrant | null {
+    const grants = getGrants(sessionKey);
+    const idx = grants.findIndex(g => g.id === grantId);
+    if (idx === -1) return null;
+    const [removed] = grants.splice(idx, 1);
+    updateStoredState(sessionKey, { grants });
+    console.log(`[Policy] Session ${sessionKey} revoked ${describeGrant(removed)}`);
+    return removed;
+}
+
+/**
+ * Revoke all grants for a tool ('all' revokes everything)
+ */
+export function revokeToolGrants(sessionKey: string, toolName: string): ToolGrant[] {
+    const grants = getGrants(sessionKey);
+    const removed = grants.filter(g => toolName === 'all' || g.tool === toolName);
+    if (removed.length > 0) {
+        updateStoredState(sessionKey, { grants: grants.filter(g => !removed.includes(g)) });
+        console.log(`[Policy] Session ${sessionKey} revoked ${removed.length} grant(s) for ${toolName}`);
+    }
+    return removed;
+}
+
+/**
+ * Find a grant covering a tool call
+ */
+function findGrant(sessionKey: string, toolName: string, input: any, cwd: string): ToolGrant | undefined {
+    return getGrants(sessionKey).find(grant => {
+        if (grant.tool !== toolName) return false;
+        if (grant.command !== undefined && (typeof input?.command !== 'string' || input.command.trim() !== grant.command)) {
+            return false;
+        }
+        if (grant.path !== undefined) {
+            const filePath = getInputPath(input);
+            if (!filePath || path.resolve(cwd, filePath) !== grant.path) return false;
+        }
+        return true;
+    });
+}
+
+/**
+ * Describe a grant in one line
+ */
+export function describeGrant(grant: ToolGrant): string {
+    if (grant.command !== undefined) return `${grant.tool} command "${grant.command}"`;
+    if (grant.path !== undefined) return `${grant.tool} path "${grant.path}"`;
+    return `${grant.tool} (any input)`;
+}
+
+/**
+ * Describe a rule in one line
+ */
+export function describeRule(rule: PolicyRule): string {
+    let text = `${rule.action} ${rule.tool}`;
+    if (rule.command !== undefined) text += ` command "${rule.command}"`;
+    if (rule.path !== undefined) text += ` path "${rule.path}"`;
+    if (rule.description) text += ` (${rule.description})`;
+    return text;
+}
+
+/**
+ * Parse `<allow|deny|ask> <tool> [pattern]` into a rule
+ * The pattern is a command for Bash and a path for other tools,
+ * unless prefixed with `command:` or `path:`.
+ */
+export function parseRule(args: string): PolicyRule | null {
+    const match = args.trim().match(/^(allow|deny|ask)\s+(\S+)(?:\s+([\s\S]+))?$/i);
+    if (!match) return null;
+
+    const rule: PolicyRule = { action: match[1].toLowerCase() as PolicyAction, tool: match[2] };
+    const pattern = match[3]?.trim().replace(/^"(.*)"$/, '$1');
+    if (pattern) {
+        if (pattern.startsWith('command:')) {
+            rule.command = pattern.slice('command:'.length).trim();
+        } else if (pattern.startsWith('path:')) {
+            rule.path = pattern.slice('path:'.length).trim();
+        } else if (rule.tool === 'Bash') {
+            rule.command = pattern;
+        } else {
+            rule.path = pattern;
+        }
+    }
+    return rule;
+}
+
+/**
+ * Evaluate channel and global rules for a tool call
+ * deny beats ask beats session grants beat allow; falls back to the auto-approve list, then ask.
+ */
+export function evaluatePolicy(
+    toolName: string,
+    input: any,
+    context: { cwd: string; channelId: string; sessionKey?: string }
+): PolicyDecision {
+    let best: PolicyDecision | null = null;
+
+    const scopes: Array<{ scope: 'channel' | 'global'; rules: PolicyRule[] }> = [
+        { scope: 'channel', rules: getChannelRules(context.channelId) },
+        { scope: 'global', rules: globalRules }
+    ];
+
+    for (const { scope, rules } of scopes) {
+        for (const [idx, rule] of rules.entries()) {
+            if (!ruleMatches(rule, toolName, input, context.cwd)) continue;
+            // Earlier scopes/rules win ties
+            if (!best || ACTION_PRECEDENCE[rule.action] > ACTION_PRECEDENCE[best.action]) {
+                best = {
+                    action: rule.action,
+                    rule,
+                    scope,
+                    index: idx + 1,
+                    reason: `${scope} rule #${idx + 1}: ${describeRule(rule)}`
+                };
+            }
+        }
+    }
+
+    if (best && best.action !== 'allow') return best;
+
+    const grant = findGrant(context.sessionKey || context.channelId, toolName, input, context.cwd);
+    if (grant) {
+        const by = grant.grantedBy ? ` by <@${grant.grantedBy}>` : '';
+        return { action: 'allow', grant, scope: 'grant', reason: `Always Allow grant: ${describeGrant(grant)}${by}` };
+    }
+
+    if (best) return best;
+
+    if (config.autoApproveTools.includes(toolName)) {
+        return { action: 'allow', scope: 'default', reason: 'auto-approve list' };
+    }
+    return { action: 'ask', scope: 'default', reason: 'no matching rule' };
+}
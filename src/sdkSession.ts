@@ -7,6 +7,7 @@
 
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { config } from './config';
+import { getStoredState, updateStoredState, clearStoredState, getThreadKeys } from './sessionStore';
 
 // Types for SDK messages
 export interface ToolApprovalRequest {
@@ -16,23 +17,44 @@ export interface ToolApprovalRequest {
     signal?: AbortSignal;
 }
 
+export interface UserQuestion {
+    question: string;
+    header?: string;
+    options: Array<{ label: string; value: string; description?: string }>;
+    multiSelect?: boolean;
+}
+
 export interface UserQuestionRequest {
     requestId: string;
-    question: string;
-    options: Array<{ label: string; value: string }>;
+    questions: UserQuestion[];
     signal?: AbortSignal;
 }
 
 export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions';
 
-export type ToolApprovalResult = boolean | { denied: true; feedback?: string };
+export type ToolApprovalResult =
+    | boolean
+    | { denied: true; feedback?: string; reason?: string }
+    | { approved: true; updatedInput: Record<string, unknown> };
 
 export interface SessionCallbacks {
     cwd?: string;
     permissionMode?: PermissionMode;
+    model?: string;
+    maxTurns?: number;             // 0 = no limit
+    maxThinkingTokens?: number;    // 0 = no limit
+    systemPromptAppend?: string;   // Channel instructions added to Claude Code's system prompt
+    allowedTools?: string[];       // Defaults to ALLOWED_TOOLS
+    disallowedTools?: string[];    // Defaults to DISALLOWED_TOOLS
+    steer?: boolean;  // Interrupt the in-flight run and go to the front of the queue
+    runId?: string;   // Identifies this run to interruptSession (e.g. from a Stop button)
+    onQueued?: (queueId: string, position: number) => void;  // The in-flight run is #1
+    onDequeued?: () => void;
+    onCancelled?: () => void;
     onMessage: (msg: any) => Promise<void>;
+    onPolicyCheck?: (toolName: string, input: any) => Promise<string | null>;  // Deny reason, checked in every permission mode
     onToolApproval: (request: ToolApprovalRequest) => Promise<ToolApprovalResult>;
-    onUserQuestion?: (request: UserQuestionRequest) => Promise<string>;
+    onUserQuestion?: (request: UserQuestionRequest) => Promise<string[]>;  // One answer per question
     onComplete: (sessionId: string | null) => void;
     onError: (err: Error) => void;
 }
@@ -42,16 +64,49 @@ export interface TokenUsage {
     outputTokens: number;
     cacheReadTokens: number;
     cacheWriteTokens: number;
+    costUsd: number;
+}
+
+export interface ContextUsage {
+    usedTokens: number;      // Conversation size as of the last model turn
+    contextWindow: number;   // Model's context window (0 until a run has finished)
+    compactedFrom?: number;  // Size before the last compaction (until the next turn)
+}
+
+interface QueuedMessage {
+    id: string;
+    callbacks: SessionCallbacks;
+    start: (run: boolean) => void;
 }
 
 interface UserSession {
     sessionId: string | null;
     abortController: AbortController | null;
     queryInstance: AsyncIterable<any> & { interrupt?: () => void; close?: () => void } | null;
+    runId: string | null;    // ID of the in-flight run, if its caller gave one
     lastActivity: number;
     isActive: boolean;
     permissionMode: PermissionMode;
     tokenUsage: TokenUsage;
+    contextUsage: ContextUsage;
+    queue: QueuedMessage[];
+}
+
+// Tools the bridge itself relies on (questions, plan approval, the progress card's todo list)
+// They stay available in every channel but are not auto-approved
+export const BRIDGE_TOOLS = ['AskUserQuestion', 'ExitPlanMode', 'TodoWrite'];
+
+// Model aliases the CLI resolves to the latest model of each family
+export const MODEL_ALIASES = ['opus', 'sonnet', 'haiku'];
+
+/**
+ * Check whether two model names may refer to the same model
+ * An alias matches any full name of its family, and a full name matches its dated snapshots.
+ */
+export function isSameModel(a: string, b: string): boolean {
+    if (a === b || a.startsWith(`${b}-`) || b.startsWith(`${a}-`)) return true;
+    const family = (model: string) => MODEL_ALIASES.find(alias => model === alias || model.startsWith(`claude-${alias}-`));
+    return (MODEL_ALIASES.includes(a) || MODEL_ALIASES.includes(b)) && family(a) !== undefined && family(a) === family(b);
 }
 
 // Permission modes per session key (channelId)
@@ -61,7 +116,9 @@ const permissionModes = new Map<string, PermissionMode>();
  * Get permission mode for a session
  */
 export function getUserPermissionMode(sessionKey: string): PermissionMode {
-    return permissionModes.get(sessionKey) || 'default';
+    return permissionModes.get(sessionKey)
+        || (getStoredState(sessionKey)?.permissionMode as PermissionMode | undefined)
+        || 'default';
 }
 
 /**
@@ -69,10 +126,11 @@ export function getUserPermissionMode(sessionKey: string): PermissionMode {
  */
 export function setUserPermissionMode(sessionKey: string, mode: PermissionMode): void {
     permissionModes.set(sessionKey, mode);
+    updateStoredState(sessionKey, { permissionMode: mode });
     console.log(`[SDK] Session ${sessionKey} permission mode -> ${mode}`);
 }
 
-// Sessions map (keyed by channelId)
+// Sessions map (keyed by channelId, or channelId:threadTs in thread scope)
 const sessions = new Map<string, UserSession>();
 
 /**
@@ -81,27 +139,116 @@ const sessions = new Map<string, UserSession>();
 function getOrCreateSession(sessionKey: string): UserSession {
     let session = sessions.get(sessionKey);
     if (!session) {
+        // Restore persisted state so a restart resumes the previous conversation
+        const stored = getStoredState(sessionKey);
         session = {
-            sessionId: null,
+            sessionId: stored?.sessionId || null,
             abortController: null,
             queryInstance: null,
+            runId: null,
             lastActivity: Date.now(),
             isActive: false,
             permissionMode: getUserPermissionMode(sessionKey),
-            tokenUsage: {
+            tokenUsage: stored?.tokenUsage ? { costUsd: 0, ...stored.tokenUsage } : {
                 inputTokens: 0,
                 outputTokens: 0,
                 cacheReadTokens: 0,
-                cacheWriteTokens: 0
-            }
+                cacheWriteTokens: 0,
+                costUsd: 0
+            },
+            contextUsage: stored?.contextUsage ? { ...stored.contextUsage } : { usedTokens: 0, contextWindow: 0 },
+            queue: []
         };
         sessions.set(sessionKey, session);
     }
     return session;
 }
 
+/**
+ * Tell queued messages their current position (the in-flight run is #1)
+ */
+function notifyQueuePositions(session: UserSession): void {
+    session.queue.forEach((entry, idx) => entry.callbacks.onQueued?.(entry.id, idx + 2));
+}
+
+/**
+ * Wait until the session is free to run this message
+ * Resolves false if the queued message was cancelled.
+ */
+function waitForTurn(sessionKey: string, session: UserSession, callbacks: SessionCallbacks): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+        const entry: QueuedMessage = { id: crypto.randomUUID(), callbacks, start: resolve };
+
+        if (callbacks.steer) {
+            // Jump the queue and interrupt the in-flight run
+            session.queue.unshift(entry);
+            notifyQueuePositions(session);
+            if (session.queryInstance && typeof session.queryInstance.interrupt === 'function') {
+                session.queryInstance.interrupt();
+            }
+            session.abortController?.abort();
+            console.log(`[SDK] Steering session ${sessionKey}: interrupted in-flight run`);
+        } else {
+            session.queue.push(entry);
+            callbacks.onQueued?.(entry.id, session.queue.length + 1);
+            console.log(`[SDK] Queued message for ${sessionKey} (#${session.queue.length + 1})`);
+        }
+    });
+}
+
+/**
+ * Hand the session over to the next queued message (or mark it idle)
+ */
+function startNextQueued(session: UserSession): void {
+    const next = session.queue.shift();
+    if (!next) {
+        session.isActive = false;
+        return;
+    }
+    session.isActive = true;
+    notifyQueuePositions(session);
+    next.start(true);
+}
+
+/**
+ * Cancel every queued message of a session
+ */
+function cancelQueue(session: UserSession): number {
+    const cancelled = session.queue.splice(0);
+    for (const entry of cancelled) {
+        entry.start(false);
+    }
+    return cancelled.length;
+}
+
+/**
+ * Cancel a single queued message by its queue ID
+ */
+export function cancelQueuedMessage(queueId: string): boolean {
+    for (const [sessionKey, session] of sessions) {
+        const idx = session.queue.findIndex(entry => entry.id === queueId);
+        if (idx !== -1) {
+            const [entry] = session.queue.splice(idx, 1);
+            entry.start(false);
+            notifyQueuePositions(session);
+            console.log(`[SDK] Cancelled queued message for ${sessionKey}`);
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Cancel all queued messages of a session
+ */
+export function clearQueue(sessionKey: string): number {
+    const session = sessions.get(sessionKey);
+    return session ? cancelQueue(session) : 0;
+}
+
 /**
  * Send a message to Claude via SDK
+ * Messages for a busy session are queued and run in order.
  */
 export async function sendMessage(
     sessionKey: string,
@@ -110,31 +257,83 @@ export async function sendMessage(
 ): Promise<void> {
     const session = getOrCreateSession(sessionKey);
 
-    // If there's an active session, abort it first
-    if (session.isActive && session.abortController) {
-        session.abortController.abort();
+    // If a run is in flight, wait for our turn
+    if (session.isActive) {
+        const started = await waitForTurn(sessionKey, session, callbacks);
+        if (!started) {
+            callbacks.onCancelled?.();
+            return;
+        }
+        callbacks.onDequeued?.();
     }
 
     // Create new abort controller
-    session.abortController = new AbortController();
+    const abortController = new AbortController();
+    session.abortController = abortController;
+    session.runId = callbacks.runId || null;
     session.isActive = true;
     session.lastActivity = Date.now();
 
     // Get permission mode
     const permissionMode = callbacks.permissionMode || getUserPermissionMode(sessionKey);
 
+    const allowedTools = [...new Set([...(callbacks.allowedTools || config.allowedTools), ...BRIDGE_TOOLS])];
+    const disallowedTools = callbacks.disallowedTools || config.disallowedTools;
+
+    // The SDK's allowedTools would skip canUseTool, so the whitelist only limits which
+    // built-in tools exist; MCP tools are checked in canUseTool below
     const sdkOptions: any = {
         cwd: callbacks.cwd || config.defaultProjectPath || process.cwd(),
-        allowedTools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep', 'WebSearch', 'WebFetch', 'AskUserQuestion'],
-        abortSignal: session.abortController.signal,
+        tools: allowedTools.filter(tool => !tool.startsWith('mcp__')),
+        abortSignal: abortController.signal,
         permissionMode: permissionMode,
     };
 
+    // Model and run limits (unset = CLI defaults)
+    if (callbacks.model) {
+        sdkOptions.model = callbacks.model;
+    }
+    // The SDK rejects a fallback equal to the main model
+    if (config.fallbackModel && !(callbacks.model && isSameModel(config.fallbackModel, callbacks.model))) {
+        sdkOptions.fallbackModel = config.fallbackModel;
+    }
+    if (callbacks.maxTurns) {
+        sdkOptions.maxTurns = callbacks.maxTurns;
+    }
+    if (callbacks.maxThinkingTokens) {
+        sdkOptions.maxThinkingTokens = callbacks.maxThinkingTokens;
+    }
+
+    if (disallowedTools.length > 0) {
+        sdkOptions.disallowedTools = disallowedTools;
+    }
+
+    // Channel instructions go after Claude Code's own system prompt
+    if (callbacks.systemPromptAppend) {
+        sdkOptions.systemPrompt = { type: 'preset', preset: 'claude_code', append: callbacks.systemPromptAppend };
+    }
+
     // Resume existing session if available
     if (session.sessionId) {
         sdkOptions.resume = session.sessionId;
     }
 
+    // canUseTool is skipped in bypass mode (and for edits in accept mode), so deny checks run as a hook
+    if (callbacks.onPolicyCheck) {
+        const onPolicyCheck = callbacks.onPolicyCheck;
+        sdkOptions.hooks = {
+            PreToolUse: [{
+                hooks: [async (hookInput: any) => {
+                    const reason = await onPolicyCheck(hookInput.tool_name, hookInput.tool_input);
+                    if (!reason) return {};
+                    return {
+                        hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: reason }
+                    };
+                }]
+            }]
+        };
+    }
+
     // Tool approval callback
     sdkOptions.canUseTool = async (toolName: string, input: any, context?: { signal?: AbortSignal }) => {
         const requestId = crypto.randomUUID();
@@ -145,25 +344,29 @@ export async function sendMessage(
 
             try {
                 // Extract questions from input
-                const questions = input.questions || [];
-                const answers: Record<string, string> = {};
-
-                // Ask each question via Slack
-                for (const q of questions) {
-                    const options = (q.options || []).map((opt: any) => ({
+                const questions: UserQuestion[] = (input.questions || []).map((q: any) => ({
+                    question: q.question,
+                    header: q.header,
+                    options: (q.options || []).map((opt: any) => ({
                         label: opt.label,
-                        value: opt.label  // Use label as value for simplicity
-                    }));
-
-                    const answer = await callbacks.onUserQuestion({
-                        requestId: crypto.randomUUID(),
-                        question: q.question,
-                        options
-                    });
-
-                    // Store answer using header as key
-                    answers[q.header || q.question] = answer;
-                }
+                        value: opt.label,  // The SDK expects the chosen label(s) back
+                        description: opt.description
+                    })),
+                    multiSelect: !!q.multiSelect
+                }));
+
+                // Ask all questions at once via Slack
+                const replies = await callbacks.onUserQuestion({
+                    requestId,
+                    questions,
+                    signal: context?.signal
+                });
+
+                // Answers are keyed by question text; multi-select labels are comma-joined
+                const answers: Record<string, string> = {};
+                questions.forEach((q, idx) => {
+                    answers[q.question] = replies[idx] ?? '';
+                });
 
                 console.log(`[SDK] AskUserQuestion answers:`, answers);
 
@@ -178,6 +381,12 @@ export async function sendMessage(
             }
         }
 
+        // Tools outside the allowed list are refused without asking
+        if (!allowedTools.includes(toolName) || disallowedTools.includes(toolName)) {
+            console.log(`[SDK] Tool ${toolName} is not enabled for ${sessionKey}`);
+            return { behavior: 'deny' as const, message: `The ${toolName} tool is not enabled in this channel` };
+        }
+
         try {
             const result = await callbacks.onToolApproval({
                 requestId,
@@ -186,12 +395,19 @@ export async function sendMessage(
                 signal: context?.signal
             });
 
-            // Handle boolean or feedback response
+            // Handle boolean, edited input or feedback response
             if (result === true) {
                 return { behavior: 'allow' as const };
             } else if (result === false) {
                 return { behavior: 'deny' as const, message: 'User denied the tool use' };
+            } else if (typeof result === 'object' && 'approved' in result) {
+                // Allowed with user-edited input
+                return { behavior: 'allow' as const, updatedInput: result.updatedInput };
             } else if (typeof result === 'object' && result.denied) {
+                // Denied by policy rule
+                if (result.reason) {
+                    return { behavior: 'deny' as const, message: result.reason };
+                }
                 // Denied with feedback
                 const feedbackMsg = result.feedback
                     ? `User denied with feedback: ${result.feedback}`
@@ -219,9 +435,12 @@ export async function sendMessage(
             // Capture session ID from init message
             if (msg.type === 'system' && msg.subtype === 'init' && msg.session_id) {
                 session.sessionId = msg.session_id;
+                updateStoredState(sessionKey, { sessionId: session.sessionId });
                 console.log(`[SDK] Session created: ${session.sessionId}`);
             }
 
+            trackContextUsage(sessionKey, session, msg);
+
             // Forward message to callback
             await callbacks.onMessage(msg);
 
@@ -229,12 +448,10 @@ export async function sendMessage(
             session.lastActivity = Date.now();
         }
 
-        session.isActive = false;
         session.queryInstance = null;
         callbacks.onComplete(session.sessionId);
 
     } catch (err: any) {
-        session.isActive = false;
         session.queryInstance = null;
 
         if (err.name === 'AbortError') {
@@ -244,16 +461,67 @@ export async function sendMessage(
             console.error(`[SDK] Error for ${sessionKey}:`, err);
             callbacks.onError(err);
         }
+    } finally {
+        // Only hand over if a newer run hasn't already taken the session (e.g. after close)
+        if (session.abortController === abortController) {
+            startNextQueued(session);
+        }
     }
 }
 
+/**
+ * Track how full the context window is from the session's messages
+ * Main-thread turns give the size; results give the window; compactions reset it.
+ */
+function trackContextUsage(sessionKey: string, session: UserSession, msg: any): void {
+    const context = session.contextUsage;
+
+    if (msg.type === 'assistant' && !msg.parent_tool_use_id && msg.message?.usage) {
+        const usage = msg.message.usage;
+        context.usedTokens = (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0) +
+            (usage.cache_creation_input_tokens || 0) + (usage.output_tokens || 0);
+        delete context.compactedFrom;
+    } else if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+        context.compactedFrom = msg.compact_metadata?.pre_tokens || context.usedTokens;
+        context.usedTokens = 0;
+        updateStoredState(sessionKey, { contextUsage: { ...context } });
+        console.log(`[SDK] Context compacted for ${sessionKey} (${msg.compact_metadata?.trigger}, ${context.compactedFrom} tokens before)`);
+    } else if (msg.type === 'result') {
+        const windows = Object.values<any>(msg.modelUsage || {}).map(usage => usage.contextWindow || 0);
+        if (windows.length > 0) context.contextWindow = Math.max(...windows);
+        updateStoredState(sessionKey, { contextUsage: { ...context } });
+    }
+}
+
+/**
+ * Get context window usage for a session
+ */
+export function getContextUsage(sessionKey: string): ContextUsage | null {
+    const session = sessions.get(sessionKey);
+    if (!session) {
+        const stored = getStoredState(sessionKey);
+        return stored?.contextUsage ? { ...stored.contextUsage } : null;
+    }
+    return { ...session.contextUsage };
+}
+
+/**
+ * Get how full a session's context window is, in percent (null if unknown)
+ */
+export function getContextPercent(sessionKey: string): number | null {
+    const context = getContextUsage(sessionKey);
+    if (!context || !context.contextWindow) return null;
+    return Math.round(context.usedTokens / context.contextWindow * 100);
+}
+
 /**
  * Interrupt an active session (immediate stop, keeps session)
- * Uses SDK's interrupt() method for immediate termination
+ * Uses SDK's interrupt() method for immediate termination.
+ * With a run ID, only that run is interrupted (not one that started after it).
  */
-export function interruptSession(sessionKey: string): boolean {
+export function interruptSession(sessionKey: string, runId?: string): boolean {
     const session = sessions.get(sessionKey);
-    if (session && session.isActive) {
+    if (session && session.isActive && (!runId || session.runId === runId)) {
         // Try SDK interrupt first
         if (session.queryInstance && typeof session.queryInstance.interrupt === 'function') {
             session.queryInstance.interrupt();
@@ -263,7 +531,7 @@ export function interruptSession(sessionKey: string): boolean {
         if (session.abortController) {
             session.abortController.abort();
         }
-        session.isActive = false;
+        // The run finishes on its own and hands over to the next queued message
         session.queryInstance = null;
         return true;
     }
@@ -286,9 +554,12 @@ export function closeSession(sessionKey: string): boolean {
         if (session.abortController && session.isActive) {
             session.abortController.abort();
         }
+        cancelQueue(session);
         session.isActive = false;
         session.queryInstance = null;
         session.sessionId = null;  // Clear session ID on close
+        session.contextUsage = { usedTokens: 0, contextWindow: 0 };
+        clearStoredState(sessionKey, ['sessionId', 'contextUsage']);
         return true;
     }
     return false;
@@ -297,13 +568,18 @@ export function closeSession(sessionKey: string): boolean {
 /**
  * Get session info
  */
-export function getSessionInfo(sessionKey: string): { sessionId: string | null; isActive: boolean } | null {
+export function getSessionInfo(sessionKey: string): { sessionId: string | null; isActive: boolean; queued: number } | null {
     const session = sessions.get(sessionKey);
-    if (!session) return null;
+    if (!session) {
+        // Not loaded since restart - report the persisted session if any
+        const stored = getStoredState(sessionKey);
+        return stored?.sessionId ? { sessionId: stored.sessionId, isActive: false, queued: 0 } : null;
+    }
 
     return {
         sessionId: session.sessionId,
-        isActive: session.isActive
+        isActive: session.isActive,
+        queued: session.queue.length
     };
 }
 
@@ -312,7 +588,10 @@ export function getSessionInfo(sessionKey: string): { sessionId: string | null;
  */
 export function getTokenUsage(sessionKey: string): TokenUsage | null {
     const session = sessions.get(sessionKey);
-    if (!session) return null;
+    if (!session) {
+        const stored = getStoredState(sessionKey);
+        return stored?.tokenUsage ? { costUsd: 0, ...stored.tokenUsage } : null;
+    }
     return { ...session.tokenUsage };
 }
 
@@ -326,6 +605,8 @@ export function updateTokenUsage(sessionKey: string, usage: Partial<TokenUsage>)
         if (usage.outputTokens) session.tokenUsage.outputTokens += usage.outputTokens;
         if (usage.cacheReadTokens) session.tokenUsage.cacheReadTokens += usage.cacheReadTokens;
         if (usage.cacheWriteTokens) session.tokenUsage.cacheWriteTokens += usage.cacheWriteTokens;
+        if (usage.costUsd) session.tokenUsage.costUsd += usage.costUsd;
+        updateStoredState(sessionKey, { tokenUsage: { ...session.tokenUsage } });
         console.log(`[SDK] Updated token usage for ${sessionKey}:`, session.tokenUsage);
     } else {
         console.log(`[SDK] No session found for ${sessionKey} to update token usage`);
@@ -345,9 +626,24 @@ export function clearSession(sessionKey: string): void {
         if (session.abortController && session.isActive) {
             session.abortController.abort();
         }
+        cancelQueue(session);
         sessions.delete(sessionKey);
         console.log(`[SDK] Cleared session for ${sessionKey}`);
     }
+    clearStoredState(sessionKey, ['sessionId', 'tokenUsage', 'contextUsage']);
+}
+
+/**
+ * Clear a channel's session and all of its thread sessions, loaded or only persisted
+ * Returns the cleared session keys.
+ */
+export function clearChannelSessions(channelId: string): string[] {
+    const loaded = [...sessions.keys()].filter(key => key.startsWith(`${channelId}:`));
+    const keys = [...new Set([channelId, ...loaded, ...getThreadKeys(channelId)])];
+    for (const key of keys) {
+        clearSession(key);
+    }
+    return keys;
 }
 
 /**
@@ -362,6 +658,7 @@ export function clearAllSessions(): void {
         if (session.abortController && session.isActive) {
             session.abortController.abort();
         }
+        cancelQueue(session);
     }
     sessions.clear();
     console.log('[SDK] Cleared all sessions');
@@ -0,0 +1,203 @@
+/**
+ * Session Store
+ *
+ * Persists per-session state (SDK session ID, working directory,
+ * permission mode, token usage) so channels survive bridge restarts.
+ * The backend is pluggable; a JSON file store is used by default.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { PolicyRule, ToolGrant } from './permissionPolicy';
+
+export interface StoredTokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    costUsd?: number;
+}
+
+export interface StoredContextUsage {
+    usedTokens: number;
+    contextWindow: number;
+    compactedFrom?: number;
+}
+
+export interface StoredSessionState {
+    sessionId?: string | null;
+    workingDir?: string;
+    permissionMode?: string;
+    tokenUsage?: StoredTokenUsage;
+    contextUsage?: StoredContextUsage;
+    policyRules?: PolicyRule[];
+    grants?: ToolGrant[];
+    displayMode?: string;
+    showToolResults?: boolean;
+    model?: string;
+    maxTurns?: number;
+    maxThinkingTokens?: number;
+    systemPrompt?: string;
+    allowedTools?: string[];
+    disallowedTools?: string[];
+    budget?: { dailyUsd?: number; monthlyUsd?: number };
+    budgetOverrideUntil?: number;
+    budgetOverrideBy?: string;
+    updatedAt?: number;
+}
+
+export interface SessionStore {
+    load(): Record<string, StoredSessionState>;
+    save(states: Record<string, StoredSessionState>): void;
+}
+
+/**
+ * Create a store that keeps state in memory only (nothing survives restart)
+ */
+export function createMemorySessionStore(): SessionStore {
+    let snapshot: Record<string, StoredSessionState> = {};
+    return {
+        load: () => JSON.parse(JSON.stringify(snapshot)),
+        save: (states) => {
+            snapshot = JSON.parse(JSON.stringify(states));
+        }
+    };
+}
+
+/**
+ * Create a store backed by a JSON file
+ * Writes go to a temp file first and are renamed into place.
+ */
+export function createFileSessionStore(filePath: string): SessionStore {
+    return {
+        load: () => {
+            try {
+                if (!fs.existsSync(filePath)) return {};
+                const raw = fs.readFileSync(filePath, 'utf8');
+                return raw.trim() ? JSON.parse(raw) : {};
+            } catch (err: any) {
+                console.error(`[Store] Failed to load ${filePath}:`, err.message);
+                return {};
+            }
+        },
+        save: (states) => {
+            try {
+                fs.mkdirSync(path.dirname(filePath), { recursive: true });
+                const tmpPath = `${filePath}.tmp`;
+                fs.writeFileSync(tmpPath, JSON.stringify(states, null, 2));
+                fs.renameSync(tmpPath, filePath);
+            } catch (err: any) {
+                console.error(`[Store] Failed to save ${filePath}:`, err.message);
+            }
+        }
+    };
+}
+
+let store: SessionStore | null = null;
+
+// In-memory copy of persisted state (keyed like sessions)
+const states = new Map<string, StoredSessionState>();
+
+/**
+ * Get the active store, creating the configured default on first use
+ */
+function getStore(): SessionStore {
+    if (!store) {
+        store = config.sessionStore === 'memory'
+            ? createMemorySessionStore()
+            : createFileSessionStore(config.sessionStorePath);
+    }
+    return store;
+}
+
+/**
+ * Load persisted state from a store (defaults to the configured one)
+ */
+export function initSessionStore(customStore?: SessionStore): number {
+    if (customStore) store = customStore;
+    states.clear();
+    const loaded = getStore().load();
+    for (const [key, state] of Object.entries(loaded)) {
+        states.set(key, state);
+    }
+    pruneThreadStates();
+    console.log(`[Store] Loaded ${states.size} session(s)`);
+    return states.size;
+}
+
+/**
+ * Drop thread sessions (`${channelId}:${threadTs}` keys) not updated within the TTL
+ * Channel entries are kept; they hold settings as well as the session.
+ */
+export function pruneThreadStates(maxAgeMs: number = config.threadSessionTtlDays * 24 * 60 * 60 * 1000): number {
+    if (maxAgeMs <= 0) return 0;
+
+    const cutoff = Date.now() - maxAgeMs;
+    let pruned = 0;
+    for (const [key, state] of states) {
+        if (key.includes(':') && (state.updatedAt || 0) < cutoff) {
+            states.delete(key);
+            pruned++;
+        }
+    }
+    if (pruned > 0) {
+        flush();
+        console.log(`[Store] Pruned ${pruned} idle thread session(s)`);
+    }
+    return pruned;
+}
+
+/**
+ * Write the in-memory state through to the store
+ */
+function flush(): void {
+    getStore().save(Object.fromEntries(states));
+}
+
+/**
+ * Get persisted state for a session key
+ */
+export function getStoredState(key: string): StoredSessionState | undefined {
+    return states.get(key);
+}
+
+/**
+ * Get the keys of a channel's persisted thread sessions (`${channelId}:${threadTs}`)
+ */
+export function getThreadKeys(channelId: string): string[] {
+    return [...states.keys()].filter(key => key.startsWith(`${channelId}:`));
+}
+
+/**
+ * Merge changes into persisted state for a session key
+ */
+export function updateStoredState(key: string, patch: Partial<StoredSessionState>): void {
+    const current = states.get(key) || {};
+    states.set(key, { ...current, ...patch, updatedAt: Date.now() });
+    flush();
+}
+
+/**
+ * Remove fields from persisted state (removes the key if nothing is left)
+ */
+export function clearStoredState(key: string, fields?: Array<keyof StoredSessionState>): void {
+    const current = states.get(key);
+    if (!current) return;
+
+    if (!fields) {
+        states.delete(key);
+    } else {
+        const next = { ...current };
+        for (const field of fields) {
+            delete next[field];
+        }
+        delete next.updatedAt;
+        if (Object.keys(next).length === 0) {
+            states.delete(key);
+        } else {
+            states.set(key, { ...next, updatedAt: Date.now() });
+        }
+    }
+    flush();
+}
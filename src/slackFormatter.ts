@@ -5,25 +5,367 @@
  * Handles text, code blocks, tool usage, and results.
  */
 
+import { ToolGrant, describeGrant } from './permissionPolicy';
+
 // Maximum text length for Slack blocks
 const MAX_TEXT_LENGTH = 2900;
 
+// Most todo items shown on a progress card
+const MAX_PROGRESS_TODOS = 20;
+
+export interface TodoItem {
+    content: string;
+    status: 'pending' | 'in_progress' | 'completed';
+    activeForm?: string;
+}
+
+export interface ProgressState {
+    startedAt: number;
+    endedAt?: number;
+    toolCount: number;
+    currentStep?: string;           // Latest tool use, as mrkdwn
+    todos: TodoItem[];              // Latest TodoWrite list
+    activityLink?: string | null;   // Compact mode: link into the activity thread
+}
+
+// Tool output preview size (longer output gets a "Show full output" button)
+const MAX_RESULT_PREVIEW_LINES = 15;
+const MAX_RESULT_PREVIEW_CHARS = 1200;
+
+/**
+ * Escape Slack's control characters (&, <, >)
+ */
+function escapeControlChars(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 /**
  * Escape special Slack mrkdwn characters
  */
 function escapeSlackText(text: string): string {
     // Escape backticks to prevent breaking code blocks
-    return text.replace(/```/g, '` ` `');
+    return escapeControlChars(text).replace(/```/g, '` ` `');
+}
+
+// Placeholder delimiter for inline spans that must not be reformatted
+const TOKEN = '\u0000';
+
+// Bullets for nested list levels
+const LIST_BULLETS = ['•', '◦', '▪'];
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Convert inline Markdown (code, links, emphasis) to mrkdwn
+ */
+function convertInline(text: string): string {
+    const tokens: string[] = [];
+    const protect = (value: string) => `${TOKEN}${tokens.push(value) - 1}${TOKEN}`;
+
+    let result = text
+        // Inline code keeps its content verbatim
+        .replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => protect(`\`${escapeControlChars(code)}\``))
+        // Images and links become <url|text>
+        .replace(/!?\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) =>
+            protect(label ? `<${url}|${escapeControlChars(label).replace(/\|/g, '¦')}>` : `<${url}>`))
+        // Autolinks are already Slack's link syntax
+        .replace(/<((?:https?|mailto):[^\s>]+)>/g, (_, url: string) => protect(`<${url}>`));
+
+    result = escapeControlChars(result)
+        .replace(/(\*\*\*|___)(?!\s)(.+?)(?<!\s)\1/g, `${TOKEN}B_$2_${TOKEN}B`)
+        .replace(/(\*\*|__)(?!\s)(.+?)(?<!\s)\1/g, `${TOKEN}B$2${TOKEN}B`)
+        .replace(/(^|[^*\w])\*(?![\s*])(.+?)(?<![\s*])\*(?![*\w])/g, '$1_$2_')
+        .replace(/~~(?!\s)(.+?)(?<!\s)~~/g, '~$1~')
+        .replace(new RegExp(`${TOKEN}B`, 'g'), '*');
+
+    return result.replace(new RegExp(`${TOKEN}(\\d+)${TOKEN}`, 'g'), (_, idx: string) => tokens[Number(idx)]);
+}
+
+/**
+ * Remove emphasis markers (for text that is already bold or monospaced)
+ */
+function stripEmphasis(text: string): string {
+    return text.replace(/(\*\*|__)(.+?)\1/g, '$2').replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Split a Markdown table row into trimmed cells
+ */
+function splitTableRow(line: string): string[] {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Check whether a table (header row followed by a separator row) starts at a line
+ */
+function isTableStart(lines: string[], i: number): boolean {
+    return lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1]);
+}
+
+/**
+ * Count the rows of a table starting at a line (header and separator included)
+ */
+function tableLength(lines: string[], start: number): number {
+    let end = start + 2;
+    while (end < lines.length && lines[end].includes('|') && lines[end].trim() !== '') end++;
+    return end - start;
+}
+
+/**
+ * Render a Markdown table as an aligned code block
+ */
+function renderTable(headerLine: string, separatorLine: string, rowLines: string[]): string {
+    const header = splitTableRow(headerLine).map(stripEmphasis);
+    const aligns = splitTableRow(separatorLine).map(cell =>
+        cell.endsWith(':') ? (cell.startsWith(':') ? 'center' : 'right') : 'left');
+    const rows = rowLines.map(line => splitTableRow(line).map(stripEmphasis));
+
+    const columns = Math.max(header.length, ...rows.map(row => row.length));
+    const widths: number[] = [];
+    for (let col = 0; col < columns; col++) {
+        widths.push(Math.max(...[header, ...rows].map(row => (row[col] || '').length)));
+    }
+
+    const pad = (cell: string, col: number) => {
+        const space = widths[col] - cell.length;
+        if (aligns[col] === 'right') return ' '.repeat(space) + cell;
+        if (aligns[col] === 'center') {
+            const left = Math.floor(space / 2);
+            return ' '.repeat(left) + cell + ' '.repeat(space - left);
+        }
+        return cell + ' '.repeat(space);
+    };
+    const renderRow = (row: string[]) =>
+        widths.map((_, col) => pad(row[col] || '', col)).join(' | ').trimEnd();
+
+    const lines = [
+        renderRow(header),
+        widths.map(width => '-'.repeat(width)).join('-+-'),
+        ...rows.map(renderRow)
+    ];
+    return '```\n' + escapeControlChars(lines.join('\n')) + '\n```';
+}
+
+/**
+ * Convert Claude's Markdown to Slack mrkdwn
+ * Handles code fences, headings, links, emphasis, lists, quotes and tables.
+ */
+export function markdownToMrkdwn(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const output: string[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // Fenced code block: keep contents, drop the language hint
+        const fence = line.match(FENCE_PATTERN);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++;  // Skip the closing fence (an unclosed fence runs to the end)
+            output.push('```\n' + escapeControlChars(code.join('\n')) + '\n```');
+            continue;
+        }
+
+        // Table: header row followed by a separator row
+        if (isTableStart(lines, i)) {
+            const length = tableLength(lines, i);
+            output.push(renderTable(line, lines[i + 1], lines.slice(i + 2, i + length)));
+            i += length;
+            continue;
+        }
+
+        // Heading -> bold line
+        const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            output.push(`*${convertInline(stripEmphasis(heading[1]))}*`);
+            i++;
+            continue;
+        }
+
+        // Horizontal rule
+        if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            output.push('──────────');
+            i++;
+            continue;
+        }
+
+        // List item (nested by indentation, two spaces per level)
+        const item = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+        if (item) {
+            const level = Math.floor(item[1].replace(/\t/g, '    ').length / 2);
+            const ordered = /\d/.test(item[2]);
+            let text = item[3];
+            let marker = ordered ? item[2].replace(')', '.') : LIST_BULLETS[level % LIST_BULLETS.length];
+
+            const task = text.match(/^\[([ xX])\]\s+(.*)$/);
+            if (task) {
+                marker = task[1] === ' ' ? '☐' : '☑';
+                text = task[2];
+            }
+            output.push(`${'    '.repeat(level)}${marker} ${convertInline(text)}`);
+            i++;
+            continue;
+        }
+
+        // Block quote keeps Slack's native ">" prefix
+        const quote = line.match(/^\s*>\s?(.*)$/);
+        if (quote) {
+            output.push(`>${convertInline(quote[1])}`);
+            i++;
+            continue;
+        }
+
+        output.push(convertInline(line));
+        i++;
+    }
+
+    return output.join('\n');
+}
+
+/**
+ * Split Markdown into paragraphs, whole fenced code blocks and whole tables
+ */
+function splitSegments(markdown: string): string[] {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const segments: string[] = [];
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length > 0) segments.push(paragraph.join('\n'));
+        paragraph = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const fence = lines[i].match(FENCE_PATTERN);
+        if (fence) {
+            flush();
+            const block = [lines[i]];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                block.push(lines[i]);
+                i++;
+            }
+            if (i < lines.length) block.push(lines[i]);
+            segments.push(block.join('\n'));
+            i++;
+            continue;
+        }
+        if (isTableStart(lines, i)) {
+            flush();
+            const length = tableLength(lines, i);
+            segments.push(lines.slice(i, i + length).join('\n'));
+            i += length;
+            continue;
+        }
+        if (lines[i].trim() === '') {
+            flush();
+        } else {
+            paragraph.push(lines[i]);
+        }
+        i++;
+    }
+    flush();
+    return segments;
+}
+
+/**
+ * Cut a single over-long line into pieces that fit, preferring spaces
+ */
+function cutLine(line: string, fits: (text: string) => boolean): string[] {
+    const pieces: string[] = [];
+    let rest = line;
+    while (rest && !fits(rest)) {
+        let size = rest.length;
+        while (size > 1 && !fits(rest.slice(0, size))) size = Math.floor(size * 0.9);
+        const space = rest.lastIndexOf(' ', size);
+        const cut = space > size / 2 ? space : size;
+        pieces.push(rest.slice(0, cut));
+        rest = rest.slice(cut).trimStart();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+/**
+ * Split a segment that doesn't fit one message by lines
+ * Code blocks are re-fenced and tables repeat their header, so every piece stays a valid block.
+ */
+function splitOversized(segment: string, fits: (text: string) => boolean): string[] {
+    const lines = segment.split('\n');
+    let wrap = (body: string[]) => body.join('\n');
+    if (FENCE_PATTERN.test(lines[0])) {
+        const open = lines.shift()!;
+        if (lines.length > 0 && FENCE_PATTERN.test(lines[lines.length - 1])) lines.pop();
+        const close = open.trim().slice(0, 3);
+        wrap = body => [open, ...body, close].join('\n');
+    } else if (isTableStart(lines, 0)) {
+        const header = lines.splice(0, 2);
+        wrap = body => [...header, ...body].join('\n');
+    }
+    const lineFits = (line: string) => fits(wrap([line]));
+
+    const pieces: string[] = [];
+    let current: string[] = [];
+    for (const line of lines.flatMap(line => lineFits(line) ? [line] : cutLine(line, lineFits))) {
+        if (current.length > 0 && !fits(wrap([...current, line]))) {
+            pieces.push(wrap(current));
+            current = [];
+        }
+        current.push(line);
+    }
+    if (current.length > 0) pieces.push(wrap(current));
+    return pieces;
+}
+
+/**
+ * Split long Markdown into chunks that each fit one Slack message
+ * Splits at paragraph and code-fence boundaries; code blocks are never left open.
+ */
+export function splitMessageChunks(content: string, limit: number = MAX_TEXT_LENGTH): string[] {
+    const fits = (text: string) => markdownToMrkdwn(text).length <= limit;
+    if (fits(content)) return [content];
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const segment of splitSegments(content)) {
+        const candidate = current ? `${current}\n\n${segment}` : segment;
+        if (fits(candidate)) {
+            current = candidate;
+            continue;
+        }
+        if (current) chunks.push(current);
+        if (fits(segment)) {
+            current = segment;
+            continue;
+        }
+        const pieces = splitOversized(segment, fits);
+        chunks.push(...pieces.slice(0, -1));
+        current = pieces[pieces.length - 1] || '';
+    }
+    if (current) chunks.push(current);
+    return chunks;
 }
 
 /**
  * Format assistant text message
  */
 export function formatAssistantMessage(content: string): any[] {
-    const escaped = escapeSlackText(content);
-    const truncated = escaped.length > MAX_TEXT_LENGTH
-        ? escaped.slice(0, MAX_TEXT_LENGTH) + '\n\n_(truncated)_'
-        : escaped;
+    const converted = markdownToMrkdwn(content);
+    let truncated = converted;
+    if (converted.length > MAX_TEXT_LENGTH) {
+        truncated = converted.slice(0, MAX_TEXT_LENGTH);
+        // Close a code block cut off by the truncation
+        if ((truncated.match(/```/g) || []).length % 2 === 1) truncated += '\n```';
+        truncated += '\n\n_(truncated)_';
+    }
 
     return [
         {
@@ -51,10 +393,50 @@ export function formatThinking(status?: string): any[] {
     ];
 }
 
+/**
+ * Format queued message indicator with a cancel button
+ */
+export function formatQueued(position: number, queueId: string): any[] {
+    return [
+        {
+            type: "context",
+            elements: [{
+                type: "mrkdwn",
+                text: `_Queued (#${position})_ - will run after the current task :inbox_tray:`
+            }]
+        },
+        {
+            type: "actions",
+            block_id: `queued_${queueId}`,
+            elements: [{
+                type: "button",
+                text: { type: "plain_text", text: "✖️ Cancel", emoji: true },
+                action_id: "cancel_queued",
+                value: queueId
+            }]
+        }
+    ];
+}
+
 /**
  * Format tool use notification
  */
 export function formatToolUse(toolName: string, input?: any): any[] {
+    return [
+        {
+            type: "context",
+            elements: [{
+                type: "mrkdwn",
+                text: describeToolUse(toolName, input)
+            }]
+        }
+    ];
+}
+
+/**
+ * Describe a tool use in one line (emoji, tool name and main argument)
+ */
+export function describeToolUse(toolName: string, input?: any): string {
     const emoji = getToolEmoji(toolName);
     let inputSummary = '';
 
@@ -80,17 +462,269 @@ export function formatToolUse(toolName: string, input?: any): any[] {
         }
     }
 
+    return `${emoji} *${toolName}*${inputSummary}`;
+}
+
+/**
+ * Shorten tool output for an inline preview
+ */
+export function previewToolOutput(output: string): { preview: string; truncated: boolean } {
+    const trimmed = output.replace(/\s+$/, '');
+    const lines = trimmed.split('\n');
+    let preview = lines.slice(0, MAX_RESULT_PREVIEW_LINES).join('\n');
+    if (preview.length > MAX_RESULT_PREVIEW_CHARS) {
+        preview = preview.slice(0, MAX_RESULT_PREVIEW_CHARS);
+    }
+    return { preview, truncated: preview.length < trimmed.length };
+}
+
+/**
+ * Format a tool result preview (errors are flagged)
+ * With an output ID, a button offers the full output as a snippet.
+ */
+export function formatToolResult(preview: string, isError: boolean, truncated: boolean, outputId?: string): any[] {
+    const label = isError ? '🔴 *Error*' : '↳ *Output*';
+    const body = preview.trim()
+        ? `\`\`\`${escapeSlackText(preview)}${truncated ? '\n…' : ''}\`\`\``
+        : '_(no output)_';
+
+    const blocks: any[] = [
+        {
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: `${label}\n${body}`
+            }
+        }
+    ];
+
+    if (truncated && outputId) {
+        blocks.push({
+            type: "actions",
+            elements: [{
+                type: "button",
+                text: { type: "plain_text", text: "📄 Show full output", emoji: true },
+                action_id: "show_tool_output",
+                value: outputId
+            }]
+        });
+    }
+    return blocks;
+}
+
+/**
+ * Format a duration as "42s", "3m 05s" or "1h 02m"
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * Summarize tool count, todo progress and the activity link for a progress line
+ */
+function describeProgress(state: ProgressState): string {
+    const parts = [`🔧 ${state.toolCount} tool${state.toolCount === 1 ? '' : 's'} used`];
+    if (state.todos.length > 0) {
+        const done = state.todos.filter(todo => todo.status === 'completed').length;
+        parts.push(`☑ ${done}/${state.todos.length} tasks`);
+    }
+    if (state.activityLink) parts.push(`<${state.activityLink}|View activity>`);
+    return parts.join(' · ');
+}
+
+/**
+ * Format the live progress card: elapsed time, current step, todo list and a Stop button
+ */
+export function formatProgressCard(state: ProgressState, stopValue: string): any[] {
+    const blocks: any[] = [
+        {
+            type: "context",
+            elements: [{
+                type: "mrkdwn",
+                text: `:hourglass_flowing_sand: *Working* · ${formatDuration(Date.now() - state.startedAt)} · ${describeProgress(state)}`
+            }]
+        }
+    ];
+
+    if (state.currentStep) {
+        blocks.push({
+            type: "context",
+            elements: [{ type: "mrkdwn", text: `▶️ ${state.currentStep}` }]
+        });
+    }
+
+    if (state.todos.length > 0) {
+        const lines = state.todos.slice(0, MAX_PROGRESS_TODOS).map(todo => {
+            const text = escapeControlChars(todo.status === 'in_progress' ? (todo.activeForm || todo.content) : todo.content);
+            if (todo.status === 'completed') return `☑ ~${text}~`;
+            if (todo.status === 'in_progress') return `◐ *${text}*`;
+            return `☐ ${text}`;
+        });
+        if (state.todos.length > MAX_PROGRESS_TODOS) {
+            lines.push(`_…and ${state.todos.length - MAX_PROGRESS_TODOS} more_`);
+        }
+        blocks.push({
+            type: "section",
+            text: { type: "mrkdwn", text: lines.join('\n').slice(0, MAX_TEXT_LENGTH) }
+        });
+    }
+
+    blocks.push({
+        type: "actions",
+        elements: [{
+            type: "button",
+            text: { type: "plain_text", text: "⏹️ Stop", emoji: true },
+            style: "danger",
+            action_id: "stop_run",
+            value: stopValue
+        }]
+    });
+    return blocks;
+}
+
+/**
+ * Format the collapsed progress card shown once a run has ended
+ */
+export function formatProgressSummary(state: ProgressState, outcome: 'done' | 'stopped' | 'failed', stoppedBy?: string): any[] {
+    const elapsed = formatDuration((state.endedAt || Date.now()) - state.startedAt);
+    const heading = outcome === 'done' ? `✅ Done in ${elapsed}`
+        : outcome === 'stopped' ? `⏹️ Stopped${stoppedBy ? ` by <@${stoppedBy}>` : ''} after ${elapsed}`
+        : `❌ Failed after ${elapsed}`;
+
     return [
         {
             type: "context",
             elements: [{
                 type: "mrkdwn",
-                text: `${emoji} *${toolName}*${inputSummary}`
+                text: `${heading} · ${describeProgress(state)}`
             }]
         }
     ];
 }
 
+/**
+ * Format a token count as "950", "12.3k" or "1.2M"
+ */
+export function formatTokenCount(count: number): string {
+    if (count < 1000) return String(count);
+    if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+    return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Format spend against a budget as "$1.20 of $10.00 (12%)" (no budget: just the spend)
+ */
+export function formatSpend(spentUsd: number, budgetUsd: number): string {
+    if (budgetUsd <= 0) return `$${spentUsd.toFixed(2)}`;
+    return `$${spentUsd.toFixed(2)} of $${budgetUsd.toFixed(2)} (${Math.round(spentUsd / budgetUsd * 100)}%)`;
+}
+
+/**
+ * Explain why a run stopped early (null for successful runs)
+ */
+function describeStopReason(result: any): string | null {
+    switch (result.subtype) {
+        case 'success':
+            return null;
+        case 'error_max_turns':
+            return `Claude reached the turn limit (${result.num_turns} turns) before finishing. Send a follow-up to let it continue.`;
+        case 'error_max_budget_usd':
+            return 'Claude reached the spending limit for this run before finishing.';
+        case 'error_during_execution':
+            return `The run failed during execution${result.errors?.length ? `: ${result.errors[0]}` : '.'}`;
+        case 'error_max_structured_output_retries':
+            return 'Claude could not produce valid structured output after several retries.';
+        default:
+            return `The run ended early (\`${result.subtype}\`).`;
+    }
+}
+
+/**
+ * Format the footer for a finished run: cost, wall time, turns, tokens and models
+ * The cost is the run cost as the ledger counts it (COST_SOURCE), not necessarily the SDK's.
+ * Runs that didn't succeed get a warning explaining why they stopped.
+ */
+export function formatResultFooter(result: any, costUsd: number): any[] {
+    const models = Object.keys(result.modelUsage || {});
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cachedTokens = 0;
+    for (const model of models) {
+        const usage = result.modelUsage[model] || {};
+        inputTokens += (usage.inputTokens || 0) + (usage.cacheReadInputTokens || 0) + (usage.cacheCreationInputTokens || 0);
+        outputTokens += usage.outputTokens || 0;
+        cachedTokens += usage.cacheReadInputTokens || 0;
+    }
+
+    const parts = [
+        `💰 $${costUsd.toFixed(4)}`,
+        `⏱️ ${formatDuration(result.duration_ms || 0)}`,
+        `🔄 ${result.num_turns || 0} turn${result.num_turns === 1 ? '' : 's'}`,
+        `🔤 ${formatTokenCount(inputTokens)} in${cachedTokens > 0 ? ` (${formatTokenCount(cachedTokens)} cached)` : ''} / ${formatTokenCount(outputTokens)} out`
+    ];
+    if (models.length > 0) parts.push(`🤖 ${models.join(', ')}`);
+    if (result.permission_denials?.length > 0) parts.push(`🚫 ${result.permission_denials.length} denied`);
+
+    const blocks: any[] = [];
+    const stopReason = describeStopReason(result);
+    if (stopReason) {
+        blocks.push({
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: `⚠️ *Run stopped early*\n${escapeControlChars(stopReason).slice(0, MAX_TEXT_LENGTH)}`
+            }
+        });
+    }
+    blocks.push({
+        type: "context",
+        elements: [{
+            type: "mrkdwn",
+            text: parts.join(' · ')
+        }]
+    });
+    return blocks;
+}
+
+/**
+ * Format "Always Allow" grants with revoke buttons
+ */
+export function formatGrantList(grants: ToolGrant[], sessionKey: string): any[] {
+    if (grants.length === 0) {
+        return [{
+            type: "section",
+            text: { type: "mrkdwn", text: "🔓 No active *Always Allow* grants." }
+        }];
+    }
+
+    return [
+        {
+            type: "section",
+            text: { type: "mrkdwn", text: `🔓 *Always Allow Grants* (${grants.length})` }
+        },
+        ...grants.map(grant => ({
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: `\`${describeGrant(grant)}\`` +
+                    (grant.grantedBy ? ` - by <@${grant.grantedBy}>` : '') +
+                    ` <!date^${Math.floor(grant.grantedAt / 1000)}^{date_short} {time}|${new Date(grant.grantedAt).toISOString()}>`
+            },
+            accessory: {
+                type: "button",
+                text: { type: "plain_text", text: "Revoke", emoji: true },
+                style: "danger",
+                action_id: "revoke_grant",
+                value: `${sessionKey}|${grant.id}`
+            }
+        }))
+    ];
+}
+
 /**
  * Format error message
  */
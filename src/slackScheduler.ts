@@ -0,0 +1,208 @@
+/**
+ * Slack Update Scheduler
+ *
+ * Outbound queue for streaming output: coalesces updates to the same
+ * message, keeps posts in order per channel and backs off on rate limits.
+ */
+
+import { webApi } from '@slack/bolt';
+import { config } from './config';
+
+interface PendingUpdate {
+    channelId: string;
+    run: () => Promise<void>;
+    timer: NodeJS.Timeout;
+}
+
+export interface SchedulerStats {
+    posted: number;       // Posts sent
+    updated: number;      // Coalesced updates sent
+    merged: number;       // Updates folded into a newer one before sending
+    dropped: number;      // Posts/updates that failed after retries
+    rateLimited: number;  // Rate-limit responses received
+}
+
+// Give up on a call after this many rate-limit retries
+const MAX_RETRIES = 3;
+
+// Backoff when Slack doesn't say how long to wait (doubles per retry)
+const BASE_BACKOFF_MS = 1000;
+
+// Latest not-yet-sent update per message key
+const pendingUpdates = new Map<string, PendingUpdate>();
+
+// Updates handed to the channel queue but not finished
+const inFlightUpdates = new Map<string, Promise<void>>();
+
+// When each message key was last updated
+const lastUpdateAt = new Map<string, number>();
+
+// Tail of each channel's outbound queue
+const channelQueues = new Map<string, Promise<unknown>>();
+
+// Channels paused by a rate limit until this time
+const pausedUntil = new Map<string, number>();
+
+const stats: SchedulerStats = { posted: 0, updated: 0, merged: 0, dropped: 0, rateLimited: 0 };
+
+// Clients for scheduled calls, per bot token
+const schedulerClients = new Map<string, webApi.WebClient>();
+
+/**
+ * Get the client to use inside scheduled calls
+ * It shares the app client's token but fails fast on rate limits so this queue can back off
+ * per channel; the app client keeps its built-in retry for everything else.
+ */
+export function getSchedulerClient(client: any): any {
+    const token: string | undefined = client?.token;
+    if (!token) return client;
+    let schedulerClient = schedulerClients.get(token);
+    if (!schedulerClient) {
+        schedulerClient = new webApi.WebClient(token, { rejectRateLimitedCalls: true });
+        schedulerClients.set(token, schedulerClient);
+    }
+    return schedulerClient;
+}
+
+/**
+ * Wait for the given time
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Get how long to wait after a rate-limit error (null for other errors)
+ */
+function getRetryAfterMs(err: any): number | null {
+    if (err?.code === 'slack_webapi_rate_limited_error') {
+        return (err.retryAfter ?? 0) * 1000;
+    }
+    if (err?.data?.error === 'ratelimited') {
+        const header = err.headers?.['retry-after'] ?? err.data?.headers?.['retry-after'];
+        return header ? parseInt(header, 10) * 1000 : 0;
+    }
+    return null;
+}
+
+/**
+ * Run a Slack call, retrying on rate limits
+ * Honors Retry-After, falling back to exponential backoff.
+ */
+async function callWithRetry<T>(channelId: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        const wait = (pausedUntil.get(channelId) || 0) - Date.now();
+        if (wait > 0) await sleep(wait);
+
+        try {
+            return await fn();
+        } catch (err: any) {
+            const retryAfterMs = getRetryAfterMs(err);
+            if (retryAfterMs === null) throw err;
+
+            stats.rateLimited++;
+            if (attempt >= MAX_RETRIES) throw err;
+
+            const delay = Math.max(retryAfterMs, BASE_BACKOFF_MS * 2 ** attempt);
+            pausedUntil.set(channelId, Date.now() + delay);
+            console.log(`[Scheduler] Rate limited in ${channelId}, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        }
+    }
+}
+
+/**
+ * Add a call to the channel's queue so calls run one at a time, in order
+ */
+function enqueue<T>(channelId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = channelQueues.get(channelId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => callWithRetry(channelId, fn));
+    channelQueues.set(channelId, next);
+
+    next.catch(() => undefined).then(() => {
+        if (channelQueues.get(channelId) === next) channelQueues.delete(channelId);
+    });
+    return next;
+}
+
+/**
+ * Send the pending update for a message key now
+ */
+function dispatchUpdate(key: string): Promise<void> {
+    const pending = pendingUpdates.get(key);
+    if (!pending) return inFlightUpdates.get(key) || Promise.resolve();
+
+    clearTimeout(pending.timer);
+    pendingUpdates.delete(key);
+    lastUpdateAt.set(key, Date.now());
+
+    const sent: Promise<void> = enqueue(pending.channelId, pending.run)
+        .then(() => {
+            stats.updated++;
+        })
+        .catch((err: any) => {
+            stats.dropped++;
+            console.error('[Scheduler] Failed to send update:', err.message);
+        })
+        .finally(() => {
+            lastUpdateAt.set(key, Date.now());
+            if (inFlightUpdates.get(key) === sent) inFlightUpdates.delete(key);
+        });
+    inFlightUpdates.set(key, sent);
+    return sent;
+}
+
+/**
+ * Schedule an update for a message, sent at most SLACK_UPDATES_PER_SECOND times a second
+ * A newer update replaces one that hasn't been sent yet.
+ */
+export function scheduleUpdate(key: string, channelId: string, run: () => Promise<void>): void {
+    const pending = pendingUpdates.get(key);
+    if (pending) {
+        pending.run = run;
+        stats.merged++;
+        return;
+    }
+
+    const intervalMs = 1000 / Math.max(config.slackUpdatesPerSecond, 0.01);
+    const delay = Math.max(0, (lastUpdateAt.get(key) || 0) + intervalMs - Date.now());
+    pendingUpdates.set(key, {
+        channelId,
+        run,
+        timer: setTimeout(() => dispatchUpdate(key), delay)
+    });
+}
+
+/**
+ * Send any pending update for a message right away and wait for it
+ * Call when the stream ends so the final state is always shown.
+ */
+export async function flushUpdates(key: string): Promise<void> {
+    await dispatchUpdate(key);
+    lastUpdateAt.delete(key);
+}
+
+/**
+ * Post to a channel in order with other posts and updates
+ * Pending updates in the channel are sent first so messages keep their order.
+ */
+export async function schedulePost<T>(channelId: string, fn: () => Promise<T>): Promise<T> {
+    for (const [key, pending] of pendingUpdates) {
+        if (pending.channelId === channelId) dispatchUpdate(key);
+    }
+
+    try {
+        const result = await enqueue(channelId, fn);
+        stats.posted++;
+        return result;
+    } catch (err) {
+        stats.dropped++;
+        throw err;
+    }
+}
+
+/**
+ * Get counters for posts, coalesced updates and rate limiting
+ */
+export function getSchedulerStats(): SchedulerStats {
+    return { ...stats };
+}
@@ -0,0 +1,94 @@
+/**
+ * Channel System Prompt
+ *
+ * Per-channel custom instructions appended to Claude Code's system prompt,
+ * and the modal for editing them.
+ */
+
+import { getStoredState, updateStoredState } from './sessionStore';
+
+// Longest instructions a channel can store (Slack's plain_text_input limit)
+export const MAX_SYSTEM_PROMPT_LENGTH = 3000;
+
+/**
+ * Get a channel's custom instructions ('' = none)
+ */
+export function getChannelSystemPrompt(channelId: string): string {
+    return getStoredState(channelId)?.systemPrompt || '';
+}
+
+/**
+ * Replace a channel's custom instructions ('' removes them)
+ * Returns false if the instructions are too long.
+ */
+export function setChannelSystemPrompt(channelId: string, instructions: string): boolean {
+    const trimmed = instructions.trim();
+    if (trimmed.length > MAX_SYSTEM_PROMPT_LENGTH) return false;
+    updateStoredState(channelId, { systemPrompt: trimmed || undefined });
+    console.log(`[System] Channel ${channelId} instructions ${trimmed ? `set (${trimmed.length} chars)` : 'reset'}`);
+    return true;
+}
+
+/**
+ * Open a modal pre-filled with a channel's instructions
+ * The session key and thread go in private_metadata so the submit handler can reset the right session.
+ */
+export async function openSystemPromptModal(
+    client: any,
+    triggerId: string,
+    channelId: string,
+    sessionKey: string,
+    threadTs?: string
+): Promise<void> {
+    const current = getChannelSystemPrompt(channelId);
+    try {
+        await client.views.open({
+            trigger_id: triggerId,
+            view: {
+                type: "modal",
+                callback_id: 'system_prompt_modal',
+                title: {
+                    type: "plain_text",
+                    text: "Channel Instructions"
+                },
+                submit: {
+                    type: "plain_text",
+                    text: "Save"
+                },
+                close: {
+                    type: "plain_text",
+                    text: "Cancel"
+                },
+                blocks: [
+                    {
+                        type: "input",
+                        block_id: "system_block",
+                        optional: true,
+                        label: {
+                            type: "plain_text",
+                            text: "Added to Claude's system prompt in this channel"
+                        },
+                        hint: {
+                            type: "plain_text",
+                            text: "Leave empty to remove. Saving starts a new session."
+                        },
+                        element: {
+                            type: "plain_text_input",
+                            action_id: "system_input",
+                            multiline: true,
+                            max_length: MAX_SYSTEM_PROMPT_LENGTH,
+                            ...(current ? { initial_value: current } : {}),
+                            placeholder: {
+                                type: "plain_text",
+                                text: "e.g. This is the on-call triage room. Always answer in Korean and be terse."
+                            }
+                        }
+                    }
+                ],
+                private_metadata: JSON.stringify({ channelId, sessionKey, threadTs })
+            }
+        });
+    } catch (err: any) {
+        console.error('[System] Failed to open instructions modal:', err.message);
+    }
+}
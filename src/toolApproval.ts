@@ -5,18 +5,134 @@
  * Users can approve or deny Claude's tool usage requests.
  */
 
+import { config } from './config';
+import { ToolApprovalResult, UserQuestion } from './sdkSession';
+import { getInputPath } from './permissionPolicy';
+import { buildDiffPreview } from './diffPreview';
+import { appendAuditEntry, summarizeInput, AuditDecision } from './auditLog';
+import { schedulePost, getSchedulerClient } from './slackScheduler';
+
 interface PendingApproval {
-    resolve: (result: boolean | { denied: true; feedback?: string }) => void;
+    resolve: (result: ToolApprovalResult) => void;
     toolName: string;
     input: any;
     channelId: string;
+    threadTs?: string;
+    sessionKey: string;
+    cwd: string;            // Working directory the policy resolves paths against
     messageTs: string;
     userId: string;
+    policyReason?: string;
+    requestedAt: number;
+}
+
+export interface ApprovalRequestOptions {
+    threadTs?: string;
+    sessionKey?: string;    // Scope for "Always Allow" grants (defaults to channel)
+    cwd?: string;           // Working directory for resolving file paths (diff previews)
+    policyReason?: string;  // Why the policy asked (shown on the card)
+    allowGrant?: boolean;   // Offer "Always Allow" (off when a rule insists on asking)
+    signal?: AbortSignal;   // The SDK's signal for the tool call; aborting cancels the request
 }
 
 // Pending approval requests
 const pendingApprovals = new Map<string, PendingApproval>();
 
+// Slack's limit for a section's text; diffs that don't fit are uploaded as a .diff snippet instead
+const SECTION_TEXT_LIMIT = 3000;
+
+// Input fields that can be changed with "Edit & Allow" (multiline ones get a text area)
+const EDITABLE_FIELDS: Record<string, { label: string; multiline: boolean }> = {
+    command: { label: 'Command', multiline: true },
+    file_path: { label: 'File path', multiline: false },
+    notebook_path: { label: 'Notebook path', multiline: false },
+    path: { label: 'Path', multiline: false },
+    pattern: { label: 'Pattern', multiline: false },
+    url: { label: 'URL', multiline: false },
+    query: { label: 'Query', multiline: false },
+    old_string: { label: 'Old string', multiline: true },
+    new_string: { label: 'New string', multiline: true },
+    content: { label: 'Content', multiline: true },
+    new_source: { label: 'New source', multiline: true }
+};
+
+// Slack's plain_text_input limit
+const MAX_EDITABLE_LENGTH = 3000;
+
+// Tools that only read - eligible for 'allow-if-read-only' on timeout
+const READ_ONLY_TOOLS = ['Read', 'Glob', 'Grep', 'LS', 'NotebookRead', 'WebSearch'];
+
+/**
+ * Remind the requester that an approval or question is waiting
+ */
+async function sendReminder(
+    client: any,
+    channelId: string,
+    threadTs: string | undefined,
+    messageTs: string,
+    userId: string,
+    what: string,
+    remainingMs: number
+): Promise<void> {
+    const seconds = Math.round(remainingMs / 1000);
+    try {
+        if (config.approvalReminder === 'dm') {
+            const permalink = await client.chat.getPermalink({ channel: channelId, message_ts: messageTs });
+            await client.chat.postMessage({
+                channel: userId,
+                text: `⏰ A ${what} is waiting for you (${seconds}s left): ${permalink.permalink}`
+            });
+        } else {
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs || messageTs,  // A card posted as a reply can't start a thread of its own
+                text: `⏰ <@${userId}> this ${what} times out in ${seconds}s.`
+            });
+        }
+    } catch (err: any) {
+        console.error('[ToolApproval] Failed to send reminder:', err.message);
+    }
+}
+
+/**
+ * Schedule the reminder and timeout for a pending request
+ * Returns the timers so they can be cleared once the request settles.
+ */
+function scheduleTimeout(
+    client: any,
+    channelId: string,
+    threadTs: string | undefined,
+    messageTs: string,
+    userId: string,
+    what: string,
+    timeoutMs: number,
+    onTimeout: () => void
+): NodeJS.Timeout[] {
+    if (timeoutMs <= 0) return [];
+
+    const timers: NodeJS.Timeout[] = [];
+    const reminderAt = timeoutMs - config.approvalReminderBeforeMs;
+    if (config.approvalReminder !== 'off' && config.approvalReminderBeforeMs > 0 && reminderAt > 0) {
+        timers.push(setTimeout(() => {
+            sendReminder(client, channelId, threadTs, messageTs, userId, what, config.approvalReminderBeforeMs);
+        }, reminderAt));
+    }
+    timers.push(setTimeout(onTimeout, timeoutMs));
+    return timers;
+}
+
+/**
+ * Cancel a pending request once the SDK aborts its tool call (e.g. the run was interrupted)
+ */
+function cancelOnAbort(signal: AbortSignal | undefined, cancel: () => void): void {
+    if (!signal) return;
+    if (signal.aborted) {
+        cancel();
+    } else {
+        signal.addEventListener('abort', cancel, { once: true });
+    }
+}
+
 
 /**
  * Format tool input for display
@@ -31,6 +147,10 @@ function formatToolInput(toolName: string, input: any): string {
             return `File: \`${input.file_path || input.path}\`\nContent length: ${input.content?.length || 0} chars`;
         case 'Edit':
             return `File: \`${input.file_path || input.path}\``;
+        case 'MultiEdit':
+            return `File: \`${input.file_path || input.path}\`\nEdits: ${input.edits?.length || 0}`;
+        case 'NotebookEdit':
+            return `Notebook: \`${input.notebook_path}\`\nCell: \`${input.cell_id || 'new'}\` (${input.edit_mode || 'replace'})`;
         case 'Bash':
             const cmd = input.command || input;
             const cmdStr = typeof cmd === 'string' ? cmd : JSON.stringify(cmd);
@@ -82,8 +202,10 @@ export async function requestApproval(
     userId: string,
     requestId: string,
     toolName: string,
-    input: any
-): Promise<boolean | { denied: true; feedback?: string }> {
+    input: any,
+    options: ApprovalRequestOptions = {}
+): Promise<ToolApprovalResult> {
+    const { threadTs } = options;
     const emoji = getToolEmoji(toolName);
     const inputDisplay = formatToolInput(toolName, input);
 
@@ -93,6 +215,7 @@ export async function requestApproval(
             try {
                 await client.files.uploadV2({
                     channel_id: channelId,
+                    thread_ts: threadTs,
                     content: input.plan,
                     filename: 'plan.md',
                     title: 'Full Plan Content'
@@ -102,6 +225,50 @@ export async function requestApproval(
             }
         }
 
+        // For file-changing tools, show a diff (inline if small, uploaded if large)
+        const diffBlocks: any[] = [];
+        const preview = buildDiffPreview(toolName, input, options.cwd || process.cwd());
+        if (preview) {
+            const stats = preview.isNewFile
+                ? `🆕 New file \`${preview.filePath}\` (+${preview.added} lines)`
+                : `\`${preview.filePath}\` (+${preview.added} / -${preview.removed} lines)`;
+
+            // Measured after escaping: markup-heavy diffs (TSX, HTML) grow well past their raw length
+            const escaped = preview.diff
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/```/g, '` ` `');
+            const inlineText = `${stats}\n\`\`\`${escaped}\`\`\``;
+            if (inlineText.length <= SECTION_TEXT_LIMIT) {
+                diffBlocks.push({
+                    type: "section",
+                    text: { type: "mrkdwn", text: inlineText }
+                });
+            } else {
+                let uploaded = true;
+                try {
+                    await client.files.uploadV2({
+                        channel_id: channelId,
+                        thread_ts: threadTs,
+                        content: preview.diff,
+                        filename: `${preview.filePath.split('/').pop() || 'changes'}.diff`,
+                        title: `Diff: ${preview.filePath}`
+                    });
+                } catch (fileErr: any) {
+                    uploaded = false;
+                    console.error('[ToolApproval] Failed to upload diff file:', fileErr.message);
+                }
+                diffBlocks.push({
+                    type: "context",
+                    elements: [{
+                        type: "mrkdwn",
+                        text: `${stats} - ${uploaded ? 'diff too large to show inline, uploaded as a `.diff` snippet' : 'diff too large to show (upload failed)'}`
+                    }]
+                });
+            }
+        }
+
         // Build action buttons
         const actionButtons: any[] = [
             {
@@ -120,6 +287,16 @@ export async function requestApproval(
             }
         ];
 
+        // Add "Edit & Allow" when the input has fields we can edit
+        if (toolName !== 'ExitPlanMode' && getEditableFields(input).length > 0) {
+            actionButtons.splice(1, 0, {
+                type: "button",
+                text: { type: "plain_text", text: "✏️ Edit & Allow", emoji: true },
+                action_id: "edit_and_allow",
+                value: requestId
+            });
+        }
+
         // Add "Deny with Feedback" for ExitPlanMode
         if (toolName === 'ExitPlanMode') {
             actionButtons.push({
@@ -128,19 +305,32 @@ export async function requestApproval(
                 action_id: "deny_with_feedback",
                 value: requestId
             });
-        } else {
-            // Add "Always Allow" for other tools
+        } else if (options.allowGrant !== false) {
+            // Add "Always Allow" for other tools (scoped to this session)
             actionButtons.push({
                 type: "button",
                 text: { type: "plain_text", text: "🔓 Always Allow", emoji: true },
                 action_id: "always_allow_tool",
                 value: `${requestId}:${toolName}`
             });
+
+            // Narrower grant for the exact command or file
+            const exactLabel = typeof input?.command === 'string' ? 'this command'
+                : getInputPath(input) ? 'this file' : null;
+            if (exactLabel) {
+                actionButtons.push({
+                    type: "button",
+                    text: { type: "plain_text", text: `🔓 Always Allow ${exactLabel}`, emoji: true },
+                    action_id: "always_allow_exact",
+                    value: requestId
+                });
+            }
         }
 
         // Send approval request message with buttons
-        const result = await client.chat.postMessage({
+        const result = await schedulePost<any>(channelId, () => getSchedulerClient(client).chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             text: `${emoji} Tool approval request: ${toolName}`,
             blocks: [
                 {
@@ -159,26 +349,60 @@ export async function requestApproval(
                             : inputDisplay
                     }
                 },
+                ...diffBlocks,
+                ...(options.policyReason ? [{
+                    type: "context",
+                    elements: [{
+                        type: "mrkdwn",
+                        text: `📜 Policy: ${options.policyReason}`
+                    }]
+                }] : []),
                 {
                     type: "actions",
                     block_id: `tool_approval_${requestId}`,
                     elements: actionButtons
                 }
             ]
-        });
+        }));
+
+        // Wait for user response (or the timeout's default action)
+        const messageTs = result.ts as string;
+        return new Promise<ToolApprovalResult>((resolve) => {
+            const timers = scheduleTimeout(client, channelId, threadTs, messageTs, userId, 'tool approval', config.toolApprovalTimeoutMs, () => {
+                if (!pendingApprovals.has(requestId)) return;
+                const allow = config.approvalTimeoutAction === 'allow-if-read-only' && READ_ONLY_TOOLS.includes(toolName);
+                console.log(`[ToolApproval] Request ${requestId} (${toolName}) timed out -> ${allow ? 'allowed' : 'denied'}`);
+                handleApprovalAction(requestId, allow, {
+                    decidedBy: 'system',
+                    decision: 'timeout',
+                    note: allow ? 'auto-allowed (read-only)' : 'auto-denied'
+                });
+                updateApprovalMessage(client, channelId, messageTs, 'timeout', allow ? 'auto-allowed (read-only)' : 'auto-denied');
+            });
 
-        // Wait for user response (no timeout)
-        return new Promise<boolean | { denied: true; feedback?: string }>((resolve) => {
             pendingApprovals.set(requestId, {
-                resolve: (result: boolean | { denied: true; feedback?: string }) => {
+                resolve: (result: ToolApprovalResult) => {
+                    timers.forEach(clearTimeout);
                     pendingApprovals.delete(requestId);
                     resolve(result);
                 },
                 toolName,
                 input,
                 channelId,
-                messageTs: result.ts as string,
-                userId
+                threadTs,
+                sessionKey: options.sessionKey || channelId,
+                cwd: options.cwd || process.cwd(),
+                messageTs,
+                userId,
+                policyReason: options.policyReason,
+                requestedAt: Date.now()
+            });
+
+            cancelOnAbort(options.signal, () => {
+                const pending = pendingApprovals.get(requestId);
+                if (!pending) return;
+                auditPendingApproval(requestId, pending, 'system', 'cancelled');
+                pending.resolve(false);
             });
         });
 
@@ -191,15 +415,48 @@ export async function requestApproval(
 /**
  * Handle approval action from Slack button
  */
-export function handleApprovalAction(requestId: string, approved: boolean | { denied: true; feedback?: string }): boolean {
+export function handleApprovalAction(
+    requestId: string,
+    approved: ToolApprovalResult,
+    audit?: { decidedBy: string; decision: AuditDecision; note?: string }
+): boolean {
     const pending = pendingApprovals.get(requestId);
     if (pending) {
+        if (audit) {
+            auditPendingApproval(requestId, pending, audit.decidedBy, audit.decision, audit.note);
+        }
         pending.resolve(approved);
         return true;
     }
     return false;
 }
 
+/**
+ * Record the decision on a pending approval in the audit log
+ */
+function auditPendingApproval(
+    requestId: string,
+    pending: PendingApproval,
+    decidedBy: string,
+    decision: AuditDecision,
+    note?: string
+): void {
+    appendAuditEntry({
+        requestId,
+        channelId: pending.channelId,
+        threadTs: pending.threadTs,
+        requestedBy: pending.userId,
+        decidedBy,
+        toolName: pending.toolName,
+        inputSummary: summarizeInput(pending.toolName, pending.input),
+        decision,
+        rule: pending.policyReason,
+        note,
+        requestedAt: new Date(pending.requestedAt).toISOString(),
+        decidedAt: new Date().toISOString()
+    });
+}
+
 /**
  * Open feedback modal for deny with feedback
  */
@@ -253,6 +510,95 @@ export async function openFeedbackModal(
     }
 }
 
+/**
+ * Get the input fields that can be edited before approving
+ */
+function getEditableFields(input: any): string[] {
+    if (!input || typeof input !== 'object') return [];
+    return Object.keys(EDITABLE_FIELDS).filter(field =>
+        typeof input[field] === 'string' && input[field].length <= MAX_EDITABLE_LENGTH);
+}
+
+/**
+ * Open modal to edit tool input before approving
+ */
+export async function openEditInputModal(
+    client: any,
+    triggerId: string,
+    requestId: string
+): Promise<void> {
+    const pending = pendingApprovals.get(requestId);
+    if (!pending) return;
+
+    const blocks = getEditableFields(pending.input).map(field => ({
+        type: "input",
+        block_id: `edit_${field}`,
+        label: {
+            type: "plain_text",
+            text: EDITABLE_FIELDS[field].label
+        },
+        optional: pending.input[field] === '',
+        element: {
+            type: "plain_text_input",
+            action_id: "value",
+            multiline: EDITABLE_FIELDS[field].multiline,
+            max_length: MAX_EDITABLE_LENGTH,
+            ...(pending.input[field] ? { initial_value: pending.input[field] } : {})
+        }
+    }));
+
+    try {
+        await client.views.open({
+            trigger_id: triggerId,
+            view: {
+                type: "modal",
+                callback_id: `edit_input_modal_${requestId}`,
+                title: {
+                    type: "plain_text",
+                    text: `Edit ${pending.toolName}`.slice(0, 24)
+                },
+                submit: {
+                    type: "plain_text",
+                    text: "Allow"
+                },
+                close: {
+                    type: "plain_text",
+                    text: "Cancel"
+                },
+                blocks,
+                private_metadata: requestId
+            }
+        });
+    } catch (err: any) {
+        console.error('[ToolApproval] Failed to open edit modal:', err.message);
+    }
+}
+
+/**
+ * Apply edited field values from the modal to a pending approval's input
+ * Returns the updated input and a summary of what changed.
+ */
+export function applyInputEdits(
+    requestId: string,
+    values: Record<string, any>
+): { updatedInput: Record<string, unknown>; changes: string[] } | null {
+    const pending = pendingApprovals.get(requestId);
+    if (!pending) return null;
+
+    const updatedInput: Record<string, unknown> = { ...pending.input };
+    const changes: string[] = [];
+    for (const field of getEditableFields(pending.input)) {
+        const edited = values[`edit_${field}`]?.value?.value ?? '';
+        if (edited !== pending.input[field]) {
+            updatedInput[field] = edited;
+            const before = pending.input[field].length > 80 ? `${pending.input[field].slice(0, 80)}…` : pending.input[field];
+            const after = edited.length > 80 ? `${edited.slice(0, 80)}…` : edited;
+            changes.push(`\`${field}\`: \`${before}\` → \`${after}\``);
+        }
+    }
+    return { updatedInput, changes };
+}
+
 /**
  * Update approval message after decision
  */
@@ -260,26 +606,31 @@ export async function updateApprovalMessage(
     client: any,
     channelId: string,
     messageTs: string,
-    status: 'approved' | 'denied' | 'timeout' | 'always_allow'
+    status: 'approved' | 'denied' | 'timeout' | 'always_allow',
+    detail?: string,
+    decidedBy?: string
 ): Promise<void> {
-    const statusText: Record<string, string> = {
+    const statusLabels: Record<string, string> = {
         approved: '✅ *Approved*',
         denied: '❌ *Denied*',
-        timeout: '⏱️ *Timed out* (auto-denied)',
+        timeout: '⏱️ *Timed out*',
         always_allow: '🔓 *Always Allowed*'
     };
+    const statusText = statusLabels[status]
+        + (decidedBy ? ` by <@${decidedBy}>` : '')
+        + (detail ? ` - ${detail}` : '');
 
     try {
         await client.chat.update({
             channel: channelId,
             ts: messageTs,
-            text: statusText[status],
+            text: statusText,
             blocks: [
                 {
                     type: "section",
                     text: {
                         type: "mrkdwn",
-                        text: statusText[status]
+                        text: statusText
                     }
                 }
             ]
@@ -297,32 +648,121 @@ export function getPendingApproval(requestId: string): PendingApproval | undefin
 }
 
 /**
- * Cancel all pending approvals for a channel
+ * Cancel all pending approvals and questions for a channel (or a single thread in it)
  */
-export function cancelUserApprovals(channelId: string): void {
+export function cancelUserApprovals(channelId: string, threadTs?: string): void {
+    const matches = (pending: { channelId: string; threadTs?: string }) =>
+        pending.channelId === channelId && (!threadTs || pending.threadTs === threadTs);
+
     for (const [requestId, pending] of pendingApprovals) {
-        if (pending.channelId === channelId) {
+        if (matches(pending)) {
+            auditPendingApproval(requestId, pending, 'system', 'cancelled');
             pending.resolve(false);
             pendingApprovals.delete(requestId);
         }
     }
+    for (const pending of [...pendingQuestions.values(), ...pendingQuestionForms.values()]) {
+        if (matches(pending)) pending.reject(new Error('Question cancelled'));
+    }
 }
 
 // ===== AskUserQuestion handling =====
 
+export interface QuestionOption {
+    label: string;
+    value: string;
+    description?: string;
+}
+
+export interface QuestionRequestOptions {
+    threadTs?: string;
+    header?: string;        // Short label the SDK attaches to the question
+    multiSelect?: boolean;  // Allow choosing several options
+    signal?: AbortSignal;   // The SDK's signal for the tool call; aborting cancels the question
+}
+
 interface PendingQuestion {
     resolve: (answer: string) => void;
+    reject: (error: Error) => void;
     question: string;
-    options: Array<{ label: string; value: string }>;
+    options: QuestionOption[];
+    multiSelect: boolean;
     channelId: string;
+    threadTs?: string;
     messageTs: string;
     userId: string;
 }
 
 const pendingQuestions = new Map<string, PendingQuestion>();
 
+// Up to this many single-choice options are shown as buttons, more as a select menu
+const MAX_QUESTION_BUTTONS = 5;
+
+// Block Kit limits
+const MAX_CHECKBOX_OPTIONS = 10;
+const MAX_SELECT_OPTIONS = 100;
+
 /**
- * Request user to answer a question via Slack buttons
+ * Build the answer element(s) for a question's shape:
+ * buttons for a few options, a select menu for many, checkboxes for multi-select
+ */
+function buildQuestionElements(requestId: string, options: QuestionOption[], multiSelect: boolean): any[] {
+    const toOption = (opt: QuestionOption, idx: number, mrkdwn: boolean) => ({
+        text: { type: mrkdwn ? "mrkdwn" : "plain_text", text: opt.label.slice(0, 75) },
+        value: `${requestId}|${idx}`,
+        ...(opt.description
+            ? { description: { type: mrkdwn ? "mrkdwn" : "plain_text", text: opt.description.slice(0, 75) } }
+            : {})
+    });
+
+    const elements: any[] = [];
+    if (multiSelect) {
+        elements.push(options.length <= MAX_CHECKBOX_OPTIONS
+            ? {
+                type: "checkboxes",
+                action_id: "question_checkboxes",
+                options: options.map((opt, idx) => toOption(opt, idx, true))
+            }
+            : {
+                type: "multi_static_select",
+                action_id: "question_multi_select",
+                placeholder: { type: "plain_text", text: "Choose options" },
+                options: options.slice(0, MAX_SELECT_OPTIONS).map((opt, idx) => toOption(opt, idx, false))
+            });
+        elements.push({
+            type: "button",
+            text: { type: "plain_text", text: "Submit", emoji: true },
+            style: "primary",
+            action_id: "question_submit",
+            value: requestId
+        });
+    } else if (options.length <= MAX_QUESTION_BUTTONS) {
+        options.forEach((opt, idx) => elements.push({
+            type: "button",
+            text: { type: "plain_text", text: opt.label.slice(0, 75), emoji: true },
+            action_id: `question_answer_${idx}`,
+            value: `${requestId}|${idx}`
+        }));
+    } else {
+        elements.push({
+            type: "static_select",
+            action_id: "question_select",
+            placeholder: { type: "plain_text", text: "Choose an option" },
+            options: options.slice(0, MAX_SELECT_OPTIONS).map((opt, idx) => toOption(opt, idx, false))
+        });
+    }
+
+    elements.push({
+        type: "button",
+        text: { type: "plain_text", text: "Other…", emoji: true },
+        action_id: "question_other",
+        value: requestId
+    });
+    return elements;
+}
+
+/**
+ * Request user to answer a question via Slack buttons, menus or checkboxes
  */
 export async function requestUserQuestion(
     client: any,
@@ -330,59 +770,181 @@ export async function requestUserQuestion(
     userId: string,
     requestId: string,
     question: string,
-    options: Array<{ label: string; value: string }>
+    options: QuestionOption[],
+    settings: QuestionRequestOptions = {}
 ): Promise<string> {
+    const { threadTs, header } = settings;
+    const multiSelect = !!settings.multiSelect;
+
     try {
-        // Build button elements (max 5 per action block)
-        const buttons = options.slice(0, 5).map((opt, idx) => ({
-            type: "button",
-            text: { type: "plain_text", text: opt.label.slice(0, 75), emoji: true },
-            action_id: `question_answer_${idx}`,
-            value: `${requestId}:${opt.value}`
-        }));
+        // Buttons have no room for descriptions, so list them under the question
+        const described = !multiSelect && options.length <= MAX_QUESTION_BUTTONS
+            ? options.filter(opt => opt.description).map(opt => `• *${opt.label}* - ${opt.description}`)
+            : [];
+        const prompt = [
+            `❓ *Claude is asking${header ? ` (${header})` : ''}:*`,
+            question,
+            ...(multiSelect ? ['_Select all that apply, then press Submit._'] : []),
+            ...described
+        ].join('\n');
 
-        const result = await client.chat.postMessage({
+        const result = await schedulePost<any>(channelId, () => getSchedulerClient(client).chat.postMessage({
             channel: channelId,
+            thread_ts: threadTs,
             text: `Question: ${question}`,
             blocks: [
                 {
                     type: "section",
                     text: {
                         type: "mrkdwn",
-                        text: `❓ *Claude is asking:*\n${question}`
+                        text: prompt
                     }
                 },
                 {
                     type: "actions",
                     block_id: `question_${requestId}`,
-                    elements: buttons
+                    elements: buildQuestionElements(requestId, options, multiSelect)
                 }
             ]
-        });
+        }));
+
+        // Wait for user response (or the timeout's default action)
+        const messageTs = result.ts as string;
+        return new Promise<string>((resolve, reject) => {
+            const timers = scheduleTimeout(client, channelId, threadTs, messageTs, userId, 'question', config.questionTimeoutMs, () => {
+                if (!pendingQuestions.has(requestId)) return;
+                pendingQuestions.delete(requestId);
+                if (config.questionTimeoutAction === 'first-option' && options.length > 0) {
+                    console.log(`[Question] Request ${requestId} timed out -> ${options[0].label}`);
+                    resolve(options[0].value);
+                    updateQuestionMessage(client, channelId, messageTs, 'timeout', options[0].label);
+                } else {
+                    console.log(`[Question] Request ${requestId} timed out -> cancelled`);
+                    reject(new Error('Question timed out'));
+                    updateQuestionMessage(client, channelId, messageTs, 'timeout');
+                }
+            });
 
-        // Wait for user response (no timeout)
-        return new Promise<string>((resolve) => {
             pendingQuestions.set(requestId, {
                 resolve: (answer: string) => {
+                    timers.forEach(clearTimeout);
                     pendingQuestions.delete(requestId);
                     resolve(answer);
                 },
+                reject: (error: Error) => {
+                    timers.forEach(clearTimeout);
+                    pendingQuestions.delete(requestId);
+                    reject(error);
+                },
                 question,
                 options,
+                multiSelect,
                 channelId,
-                messageTs: result.ts as string,
+                threadTs,
+                messageTs,
                 userId
             });
+
+            cancelOnAbort(settings.signal, () => pendingQuestions.get(requestId)?.reject(new Error('Question cancelled')));
         });
 
     } catch (err: any) {
         console.error('[Question] Failed to send question:', err.message);
-        return options[0]?.value || '';  // Default to first option on error
+        throw err;  // AskUserQuestion is denied rather than answered with a guess
     }
 }
 
 /**
- * Handle question answer from Slack button
+ * Parse an option reference ("<requestId>|<index>") from a button or menu value
+ */
+export function parseQuestionOptionValue(value: string): { requestId: string; index: number } {
+    const separator = value.lastIndexOf('|');
+    return {
+        requestId: value.slice(0, separator),
+        index: parseInt(value.slice(separator + 1), 10)
+    };
+}
+
+/**
+ * Answer a question with the options at the given indexes
+ * Returns the answer label(s) for display, or null if nothing valid was chosen.
+ */
+export function answerQuestionWithOptions(requestId: string, indexes: number[]): string | null {
+    const pending = pendingQuestions.get(requestId);
+    if (!pending) return null;
+
+    const chosen = indexes
+        .filter((idx, pos) => indexes.indexOf(idx) === pos)
+        .sort((a, b) => a - b)
+        .map(idx => pending.options[idx])
+        .filter((opt): opt is QuestionOption => !!opt);
+    if (chosen.length === 0) return null;
+
+    pending.resolve(chosen.map(opt => opt.value).join(', '));
+    return chosen.map(opt => opt.label).join(', ');
+}
+
+/**
+ * Open modal for a free-text "Other" answer
+ */
+export async function openQuestionOtherModal(
+    client: any,
+    triggerId: string,
+    requestId: string
+): Promise<void> {
+    const pending = pendingQuestions.get(requestId);
+    if (!pending) return;
+
+    try {
+        await client.views.open({
+            trigger_id: triggerId,
+            view: {
+                type: "modal",
+                callback_id: `question_other_modal_${requestId}`,
+                title: {
+                    type: "plain_text",
+                    text: "Other Answer"
+                },
+                submit: {
+                    type: "plain_text",
+                    text: "Answer"
+                },
+                close: {
+                    type: "plain_text",
+                    text: "Cancel"
+                },
+                blocks: [
+                    {
+                        type: "section",
+                        text: {
+                            type: "mrkdwn",
+                            text: pending.question.slice(0, 3000)
+                        }
+                    },
+                    {
+                        type: "input",
+                        block_id: "other_block",
+                        label: {
+                            type: "plain_text",
+                            text: "Your answer"
+                        },
+                        element: {
+                            type: "plain_text_input",
+                            action_id: "other_input",
+                            multiline: true
+                        }
+                    }
+                ],
+                private_metadata: requestId
+            }
+        });
+    } catch (err: any) {
+        console.error('[Question] Failed to open answer modal:', err.message);
+    }
+}
+
+/**
+ * Answer a question with a literal value (e.g. free text from the "Other" modal)
  */
 export function handleQuestionAnswer(requestId: string, answer: string): boolean {
     const pending = pendingQuestions.get(requestId);
@@ -401,11 +963,12 @@ export async function updateQuestionMessage(
     channelId: string,
     messageTs: string,
     status: 'answered' | 'timeout',
-    answer?: string
+    answer?: string,
+    answeredBy?: string
 ): Promise<void> {
     const statusText = status === 'answered'
-        ? `✅ *Answered:* ${answer}`
-        : '⏱️ *Timed out* (used default)';
+        ? `✅ *Answered${answeredBy ? ` by <@${answeredBy}>` : ''}:* ${answer}`
+        : answer ? `⏱️ *Timed out* - used default: ${answer}` : '⏱️ *Timed out* (cancelled)';
 
     try {
         await client.chat.update({
@@ -433,3 +996,291 @@ export async function updateQuestionMessage(
 export function getPendingQuestion(requestId: string): PendingQuestion | undefined {
     return pendingQuestions.get(requestId);
 }
+
+// ===== Multi-question forms =====
+
+interface PendingQuestionForm {
+    resolve: (answers: string[]) => void;
+    reject: (error: Error) => void;
+    questions: UserQuestion[];
+    channelId: string;
+    threadTs?: string;
+    messageTs: string;
+    userId: string;
+}
+
+const pendingQuestionForms = new Map<string, PendingQuestionForm>();
+
+// Block Kit limit for radio buttons; more options use a select menu
+const MAX_RADIO_OPTIONS = 10;
+
+/**
+ * Build the modal input element for one question
+ */
+function buildFormElement(question: UserQuestion): any {
+    const options = question.options.slice(0, MAX_SELECT_OPTIONS).map((opt, idx) => ({
+        text: { type: "plain_text", text: opt.label.slice(0, 75) },
+        value: String(idx),
+        ...(opt.description ? { description: { type: "plain_text", text: opt.description.slice(0, 75) } } : {})
+    }));
+
+    if (question.multiSelect) {
+        return options.length <= MAX_CHECKBOX_OPTIONS
+            ? { type: "checkboxes", action_id: "choice", options }
+            : { type: "multi_static_select", action_id: "choice", placeholder: { type: "plain_text", text: "Choose options" }, options };
+    }
+    return options.length <= MAX_RADIO_OPTIONS
+        ? { type: "radio_buttons", action_id: "choice", options }
+        : { type: "static_select", action_id: "choice", placeholder: { type: "plain_text", text: "Choose an option" }, options };
+}
+
+/**
+ * Label a question by its header (falls back to its position)
+ */
+function questionLabel(question: UserQuestion, idx: number): string {
+    return question.header || `Question ${idx + 1}`;
+}
+
+/**
+ * Ask several questions at once: one message with an "Answer" button that opens a form
+ * Resolves with one answer per question, in order.
+ */
+export async function requestQuestionForm(
+    client: any,
+    channelId: string,
+    userId: string,
+    requestId: string,
+    questions: UserQuestion[],
+    threadTs?: string,
+    signal?: AbortSignal
+): Promise<string[]> {
+    const defaults = questions.map(q => q.options[0]?.value || '');
+
+    try {
+        const list = questions
+            .map((q, idx) => `*${idx + 1}. ${questionLabel(q, idx)}* - ${q.question}`)
+            .join('\n');
+
+        const result = await schedulePost<any>(channelId, () => getSchedulerClient(client).chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: `Claude has ${questions.length} questions`,
+            blocks: [
+                {
+                    type: "section",
+                    text: {
+                        type: "mrkdwn",
+                        text: `❓ *Claude is asking ${questions.length} questions:*\n${list}`
+                    }
+                },
+                {
+                    type: "actions",
+                    block_id: `question_form_${requestId}`,
+                    elements: [
+                        {
+                            type: "button",
+                            text: { type: "plain_text", text: "Answer", emoji: true },
+                            style: "primary",
+                            action_id: "question_form_open",
+                            value: requestId
+                        }
+                    ]
+                }
+            ]
+        }));
+
+        // Wait for the form submission (or the timeout's default action)
+        const messageTs = result.ts as string;
+        return new Promise<string[]>((resolve, reject) => {
+            const timers = scheduleTimeout(client, channelId, threadTs, messageTs, userId, 'questions', config.questionTimeoutMs, () => {
+                if (!pendingQuestionForms.has(requestId)) return;
+                pendingQuestionForms.delete(requestId);
+                if (config.questionTimeoutAction === 'first-option') {
+                    console.log(`[Question] Form ${requestId} timed out -> first options`);
+                    resolve(defaults);
+                    updateQuestionFormMessage(client, channelId, messageTs, 'timeout', questions, defaults);
+                } else {
+                    console.log(`[Question] Form ${requestId} timed out -> cancelled`);
+                    reject(new Error('Questions timed out'));
+                    updateQuestionFormMessage(client, channelId, messageTs, 'timeout', questions);
+                }
+            });
+
+            pendingQuestionForms.set(requestId, {
+                resolve: (answers: string[]) => {
+                    timers.forEach(clearTimeout);
+                    pendingQuestionForms.delete(requestId);
+                    resolve(answers);
+                },
+                reject: (error: Error) => {
+                    timers.forEach(clearTimeout);
+                    pendingQuestionForms.delete(requestId);
+                    reject(error);
+                },
+                questions,
+                channelId,
+                threadTs,
+                messageTs,
+                userId
+            });
+
+            cancelOnAbort(signal, () => pendingQuestionForms.get(requestId)?.reject(new Error('Question cancelled')));
+        });
+
+    } catch (err: any) {
+        console.error('[Question] Failed to send question form:', err.message);
+        throw err;  // AskUserQuestion is denied rather than answered with guesses
+    }
+}
+
+/**
+ * Open the form with one input per question, plus an optional free-text "Other" field
+ */
+export async function openQuestionFormModal(
+    client: any,
+    triggerId: string,
+    requestId: string
+): Promise<void> {
+    const pending = pendingQuestionForms.get(requestId);
+    if (!pending) return;
+
+    const blocks: any[] = [];
+    pending.questions.forEach((q, idx) => {
+        blocks.push({
+            type: "input",
+            block_id: `q_${idx}`,
+            optional: true,
+            label: { type: "plain_text", text: questionLabel(q, idx) },
+            hint: { type: "plain_text", text: q.question.slice(0, 2000) },
+            element: buildFormElement(q)
+        });
+        blocks.push({
+            type: "input",
+            block_id: `q_${idx}_other`,
+            optional: true,
+            label: { type: "plain_text", text: `${questionLabel(q, idx)} - other` },
+            element: {
+                type: "plain_text_input",
+                action_id: "other",
+                placeholder: { type: "plain_text", text: "Or type your own answer" }
+            }
+        });
+    });
+
+    try {
+        await client.views.open({
+            trigger_id: triggerId,
+            view: {
+                type: "modal",
+                callback_id: `question_form_modal_${requestId}`,
+                title: {
+                    type: "plain_text",
+                    text: "Claude's Questions"
+                },
+                submit: {
+                    type: "plain_text",
+                    text: "Answer"
+                },
+                close: {
+                    type: "plain_text",
+                    text: "Cancel"
+                },
+                blocks,
+                private_metadata: requestId
+            }
+        });
+    } catch (err: any) {
+        console.error('[Question] Failed to open question form:', err.message);
+    }
+}
+
+/**
+ * Read answers from a submitted form
+ * Returns per-block errors when a question was left unanswered.
+ */
+export function readQuestionFormAnswers(
+    requestId: string,
+    values: Record<string, Record<string, any>>
+): { answers: string[] } | { errors: Record<string, string> } | null {
+    const pending = pendingQuestionForms.get(requestId);
+    if (!pending) return null;
+
+    const answers: string[] = [];
+    const errors: Record<string, string> = {};
+    pending.questions.forEach((q, idx) => {
+        const choice = values[`q_${idx}`]?.choice;
+        const selected: any[] = choice?.selected_options || (choice?.selected_option ? [choice.selected_option] : []);
+        const labels = selected
+            .map(opt => q.options[parseInt(opt.value, 10)]?.value)
+            .filter((label): label is string => !!label);
+        const other = (values[`q_${idx}_other`]?.other?.value || '').trim();
+
+        // Free text replaces a single choice and adds to a multi-select
+        const parts = other ? (q.multiSelect ? [...labels, other] : [other]) : labels;
+        if (parts.length === 0) {
+            errors[`q_${idx}`] = 'Choose an option or type an answer below.';
+        }
+        answers.push(parts.join(', '));
+    });
+
+    return Object.keys(errors).length > 0 ? { errors } : { answers };
+}
+
+/**
+ * Resolve a pending form with its answers
+ */
+export function handleQuestionFormAnswers(requestId: string, answers: string[]): boolean {
+    const pending = pendingQuestionForms.get(requestId);
+    if (pending) {
+        pending.resolve(answers);
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Update form message with every header/answer pair
+ */
+export async function updateQuestionFormMessage(
+    client: any,
+    channelId: string,
+    messageTs: string,
+    status: 'answered' | 'timeout',
+    questions: UserQuestion[],
+    answers?: string[],
+    answeredBy?: string
+): Promise<void> {
+    const heading = status === 'answered'
+        ? `✅ *Answered${answeredBy ? ` by <@${answeredBy}>` : ''}:*`
+        : answers ? '⏱️ *Timed out* - used defaults:' : '⏱️ *Timed out* (cancelled)';
+    const pairs = answers
+        ? questions.map((q, idx) => `• *${questionLabel(q, idx)}:* ${answers[idx] || '-'}`)
+        : [];
+    const statusText = [heading, ...pairs].join('\n');
+
+    try {
+        await client.chat.update({
+            channel: channelId,
+            ts: messageTs,
+            text: statusText,
+            blocks: [
+                {
+                    type: "section",
+                    text: {
+                        type: "mrkdwn",
+                        text: statusText
+                    }
+                }
+            ]
+        });
+    } catch (err: any) {
+        console.error('[Question] Failed to update form message:', err.message);
+    }
+}
+
+/**
+ * Get pending question form info
+ */
+export function getPendingQuestionForm(requestId: string): PendingQuestionForm | undefined {
+    return pendingQuestionForms.get(requestId);
+}
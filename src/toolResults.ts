@@ -0,0 +1,73 @@
+/**
+ * Tool Results
+ *
+ * Extracts tool output from SDK tool_result blocks and keeps recent
+ * full outputs so a truncated preview can be expanded into a snippet.
+ */
+
+import * as crypto from 'crypto';
+
+interface StoredOutput {
+    toolName: string;
+    content: string;
+}
+
+// Keep this many full outputs for "Show full output" (oldest are dropped)
+const MAX_STORED_OUTPUTS = 200;
+
+const storedOutputs = new Map<string, StoredOutput>();
+
+/**
+ * Get the text of a tool_result block's content
+ */
+export function getToolResultText(block: any): string {
+    const content = block?.content;
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+
+    return content
+        .map((part: any) => part.type === 'text' ? part.text : `[${part.type || 'content'}]`)
+        .join('\n');
+}
+
+/**
+ * Keep a full output so it can be uploaded later
+ * Returns an ID for the "Show full output" button.
+ */
+export function storeToolOutput(toolName: string, content: string): string {
+    const id = crypto.randomUUID();
+    storedOutputs.set(id, { toolName, content });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (storedOutputs.size > MAX_STORED_OUTPUTS) {
+        storedOutputs.delete(storedOutputs.keys().next().value as string);
+    }
+    return id;
+}
+
+/**
+ * Upload a stored output as a snippet in a thread
+ */
+export async function uploadToolOutput(
+    client: any,
+    outputId: string,
+    channelId: string,
+    threadTs?: string
+): Promise<boolean> {
+    const output = storedOutputs.get(outputId);
+    if (!output) return false;
+
+    try {
+        await client.files.uploadV2({
+            channel_id: channelId,
+            thread_ts: threadTs,
+            content: output.content,
+            filename: `${output.toolName.toLowerCase()}-output.txt`,
+            title: `${output.toolName} output`
+        });
+        return true;
+    } catch (err: any) {
+        console.error('[ToolResult] Failed to upload output:', err.message);
+        return false;
+    }
+}
@@ -0,0 +1,191 @@
+/**
+ * Usage Log
+ *
+ * Append-only JSONL record of every finished run (who, where, which models,
+ * tokens, cost, duration) so usage can be reported across sessions and restarts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+
+export type UsagePeriod = 'today' | 'week' | 'month';
+
+export interface UsageRecord {
+    channelId: string;
+    threadTs?: string;
+    userId: string;
+    sessionId: string | null;
+    models: string[];
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+    costUsd: number;
+    durationMs: number;
+    numTurns: number;
+    finishedAt: string;      // ISO timestamp
+}
+
+export interface UsageSummary {
+    key: string;             // Channel or user ID ('' when not grouped)
+    runs: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    durationMs: number;
+}
+
+// Columns for CSV export, in order
+const CSV_COLUMNS: Array<keyof UsageRecord> = [
+    'finishedAt', 'channelId', 'threadTs', 'userId', 'sessionId', 'models',
+    'inputTokens', 'outputTokens', 'cacheReadTokens', 'cacheWriteTokens',
+    'costUsd', 'durationMs', 'numTurns'
+];
+
+/**
+ * Build a usage record from an SDK result message
+ */
+export function createUsageRecord(
+    result: any,
+    channelId: string,
+    userId: string,
+    costUsd: number,
+    threadTs?: string
+): UsageRecord {
+    const record: UsageRecord = {
+        channelId,
+        threadTs,
+        userId,
+        sessionId: result.session_id || null,
+        models: Object.keys(result.modelUsage || {}),
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd,
+        durationMs: result.duration_ms || 0,
+        numTurns: result.num_turns || 0,
+        finishedAt: new Date().toISOString()
+    };
+    for (const usage of Object.values<any>(result.modelUsage || {})) {
+        record.inputTokens += usage.inputTokens || 0;
+        record.outputTokens += usage.outputTokens || 0;
+        record.cacheReadTokens += usage.cacheReadInputTokens || 0;
+        record.cacheWriteTokens += usage.cacheCreationInputTokens || 0;
+    }
+    return record;
+}
+
+/**
+ * Append a record to the usage log
+ */
+export function appendUsageRecord(record: UsageRecord): void {
+    try {
+        fs.mkdirSync(path.dirname(config.usageLogPath), { recursive: true });
+        fs.appendFileSync(config.usageLogPath, JSON.stringify(record) + '\n');
+    } catch (err: any) {
+        console.error('[Usage] Failed to write record:', err.message);
+    }
+}
+
+/**
+ * Get when a reporting period started (local time; weeks start on Monday)
+ */
+export function getPeriodStart(period: UsagePeriod, now: Date = new Date()): Date {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (period === 'week') start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    if (period === 'month') start.setDate(1);
+    return start;
+}
+
+/**
+ * Read records finished since a time, optionally for one channel, oldest first
+ */
+export function readUsageRecords(since: Date, channelId?: string): UsageRecord[] {
+    let lines: string[];
+    try {
+        if (!fs.existsSync(config.usageLogPath)) return [];
+        lines = fs.readFileSync(config.usageLogPath, 'utf8').split('\n');
+    } catch (err: any) {
+        console.error('[Usage] Failed to read log:', err.message);
+        return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+            const record: UsageRecord = JSON.parse(line);
+            if (Date.parse(record.finishedAt) < since.getTime()) continue;
+            if (channelId && record.channelId !== channelId) continue;
+            records.push(record);
+        } catch {
+            // Skip corrupt lines
+        }
+    }
+    return records;
+}
+
+/**
+ * Add up records, optionally grouped by user or channel (highest cost first)
+ */
+export function summarizeUsage(records: UsageRecord[], groupBy?: 'user' | 'channel'): UsageSummary[] {
+    const groups = new Map<string, UsageSummary>();
+    for (const record of records) {
+        const key = groupBy === 'user' ? record.userId : groupBy === 'channel' ? record.channelId : '';
+        let summary = groups.get(key);
+        if (!summary) {
+            summary = { key, runs: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+            groups.set(key, summary);
+        }
+        summary.runs++;
+        summary.inputTokens += record.inputTokens + record.cacheReadTokens + record.cacheWriteTokens;
+        summary.outputTokens += record.outputTokens;
+        summary.costUsd += record.costUsd;
+        summary.durationMs += record.durationMs;
+    }
+    return [...groups.values()].sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or newline
+ */
+function csvField(value: unknown): string {
+    const text = value === undefined || value === null ? '' : Array.isArray(value) ? value.join(';') : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render records as CSV (one row per run, models separated by ';')
+ */
+function formatUsageCsv(records: UsageRecord[]): string {
+    const rows = records.map(record => CSV_COLUMNS.map(column => csvField(record[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Upload records as a CSV or JSON file
+ */
+export async function uploadUsageExport(
+    client: any,
+    records: UsageRecord[],
+    format: 'csv' | 'json',
+    filename: string,
+    channelId: string,
+    threadTs?: string
+): Promise<boolean> {
+    try {
+        await client.files.uploadV2({
+            channel_id: channelId,
+            thread_ts: threadTs,
+            content: format === 'json' ? JSON.stringify(records, null, 2) : formatUsageCsv(records),
+            filename,
+            title: `Usage export (${records.length} run${records.length === 1 ? '' : 's'})`
+        });
+        return true;
+    } catch (err: any) {
+        console.error('[Usage] Failed to upload export:', err.message);
+        return false;
+    }
+}